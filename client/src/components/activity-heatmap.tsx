@@ -0,0 +1,157 @@
+import { useMemo, useState } from 'react';
+import { addDays, format, parseISO, startOfWeek, subDays, type Day } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays } from 'lucide-react';
+import { useUnits } from '@/hooks/use-units';
+import { localDateIn } from '@/lib/timezone';
+
+type HeatmapExercise = 'pushups' | 'walks';
+
+// Day buckets from /api/stats/:type?granularity=day, keyed by local date;
+// walk values are in meters
+type DaySeries = Array<{ start: string; value: number }>;
+
+const WEEKS = 53;
+
+const levelColors: Record<HeatmapExercise, string[]> = {
+  pushups: ['bg-gray-100', 'bg-blue-200', 'bg-blue-400', 'bg-blue-600', 'bg-blue-800'],
+  walks: ['bg-gray-100', 'bg-green-200', 'bg-green-400', 'bg-green-600', 'bg-green-800'],
+};
+
+// First day of the grid: the week start on or before a year ago. Rows follow
+// the user's week start, like the server's week buckets. `today` is the
+// user's local date, not the device's.
+export function heatmapStart(weekStartsOn: Day, today: string) {
+  return format(startOfWeek(subDays(parseISO(today), 7 * (WEEKS - 1)), { weekStartsOn }), 'yyyy-MM-dd');
+}
+
+function percentile(sorted: number[], p: number) {
+  const index = (sorted.length - 1) * p;
+  const lower = Math.floor(index);
+  const upper = Math.ceil(index);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (index - lower);
+}
+
+// Active days are split into quartiles of the user's own history, so the
+// scale means the same thing for a 20-pushup user as for a 200-pushup one
+function levelScale(values: number[]) {
+  const sorted = values.filter(value => value > 0).sort((a, b) => a - b);
+  if (sorted.length === 0) return () => 0;
+  const cuts = [0.25, 0.5, 0.75].map(p => percentile(sorted, p));
+  return (value: number) => {
+    if (value <= 0) return 0;
+    const above = cuts.filter(cut => value > cut).length;
+    return above + 1;
+  };
+}
+
+type ActivityHeatmapProps = {
+  series: Record<HeatmapExercise, DaySeries>;
+  onSelectDay: (exercise: HeatmapExercise, localDate: string) => void;
+};
+
+export function ActivityHeatmap({ series, onSelectDay }: ActivityHeatmapProps) {
+  const [exercise, setExercise] = useState<HeatmapExercise>('pushups');
+  const { timeZone, weekStartsOn, fromMeters, distanceLabel } = useUnits();
+
+  const formatValue = (value: number) =>
+    exercise === 'walks' ? `${fromMeters(value).toFixed(1)} ${distanceLabel.plural}` : `${Math.round(value)} pushups`;
+
+  const { weeks, months, activeDays } = useMemo(() => {
+    const values = new Map(series[exercise].map(day => [day.start, day.value]));
+    const levelOf = levelScale(Array.from(values.values()));
+    const today = localDateIn(timeZone);
+    const start = parseISO(heatmapStart(weekStartsOn, today));
+
+    const weeks = Array.from({ length: WEEKS }, (_, week) =>
+      Array.from({ length: 7 }, (_, weekday) => {
+        const date = format(addDays(start, week * 7 + weekday), 'yyyy-MM-dd');
+        const value = values.get(date) ?? 0;
+        return { date, value, level: levelOf(value), future: date > today };
+      })
+    );
+
+    // Label a column when a new month starts within its first week
+    const months = weeks.map((days, index) => {
+      const first = days.find(day => day.date.endsWith('-01'));
+      return first || index === 0 ? format(parseISO((first ?? days[0]).date), 'MMM') : '';
+    });
+
+    const activeDays = weeks.flat().filter(day => day.value > 0).length;
+    return { weeks, months, activeDays };
+  }, [series, exercise, weekStartsOn, timeZone]);
+
+  const colors = levelColors[exercise];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <CalendarDays className="h-5 w-5" />
+            Activity
+          </CardTitle>
+          <div className="flex gap-2">
+            <Button
+              variant={exercise === 'pushups' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setExercise('pushups')}
+            >
+              Pushups
+            </Button>
+            <Button
+              variant={exercise === 'walks' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setExercise('walks')}
+            >
+              Walks
+            </Button>
+          </div>
+        </div>
+        <CardDescription>
+          {activeDays} active day{activeDays === 1 ? '' : 's'} in the last year. Click a day to see its entries.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <div className="inline-flex flex-col gap-1">
+            <div className="flex gap-[3px] text-[10px] text-muted-foreground h-3">
+              {months.map((month, index) => (
+                <div key={index} className="w-3 overflow-visible whitespace-nowrap">{month}</div>
+              ))}
+            </div>
+            <div className="flex gap-[3px]">
+              {weeks.map((days, index) => (
+                <div key={index} className="flex flex-col gap-[3px]">
+                  {days.map(day => (
+                    <button
+                      key={day.date}
+                      type="button"
+                      disabled={day.future || day.value === 0}
+                      title={`${format(parseISO(day.date), 'EEE, MMM d, yyyy')}: ${
+                        day.value > 0 ? formatValue(day.value) : 'no activity'
+                      }`}
+                      aria-label={format(parseISO(day.date), 'MMM d, yyyy')}
+                      className={`h-3 w-3 rounded-sm ${day.future ? 'invisible' : colors[day.level]} ${
+                        day.value > 0 ? 'hover:ring-2 hover:ring-gray-400' : ''
+                      }`}
+                      onClick={() => onSelectDay(exercise, day.date)}
+                    />
+                  ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="flex items-center justify-end gap-1 mt-3 text-xs text-muted-foreground">
+          Less
+          {colors.map(color => (
+            <div key={color} className={`h-3 w-3 rounded-sm ${color}`} />
+          ))}
+          More
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { format, parseISO } from 'date-fns';
+import { Award, Flame, Lock, Medal, Star, Zap } from 'lucide-react';
+
+export type Achievement = {
+  badge: string;
+  exercise: string;
+  measure: 'entries' | 'lifetime' | 'bestDay' | 'streak';
+  threshold: number;
+  title: string;
+  description: string;
+  earnedAt: string | null;
+};
+
+const measureIcons = {
+  entries: Star,
+  lifetime: Medal,
+  bestDay: Zap,
+  streak: Flame,
+};
+
+// Toast copy for the badges returned alongside a newly logged entry
+export function describeUnlocked(unlocked: Pick<Achievement, 'title'>[]) {
+  return {
+    title: unlocked.length === 1 ? '🏆 Badge unlocked!' : `🏆 ${unlocked.length} badges unlocked!`,
+    description: unlocked.map(achievement => achievement.title).join(', '),
+  };
+}
+
+export function BadgesGallery({ achievements }: { achievements: Achievement[] }) {
+  const earnedCount = achievements.filter(achievement => achievement.earnedAt).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Award className="h-5 w-5" />
+          Badges
+        </CardTitle>
+        <CardDescription>
+          {earnedCount} of {achievements.length} earned
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+          {achievements.map(achievement => {
+            const Icon = achievement.earnedAt ? measureIcons[achievement.measure] : Lock;
+            const color = achievement.exercise === 'walks' ? 'text-green-600 bg-green-500/10' : 'text-blue-600 bg-primary/10';
+            return (
+              <div
+                key={achievement.badge}
+                className={`flex flex-col items-center text-center gap-1 p-3 rounded-lg border ${
+                  achievement.earnedAt ? '' : 'opacity-50'
+                }`}
+              >
+                <div
+                  className={`h-10 w-10 rounded-full flex items-center justify-center ${
+                    achievement.earnedAt ? color : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  <Icon className="h-5 w-5" />
+                </div>
+                <div className="text-sm font-semibold">{achievement.title}</div>
+                <div className="text-xs text-muted-foreground">{achievement.description}</div>
+                {achievement.earnedAt && (
+                  <div className="text-[10px] text-muted-foreground">
+                    {format(parseISO(achievement.earnedAt), 'MMM d, yyyy')}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { ChartBucket, ChartGranularity } from "@/components/progress-chart";
+
+const bucketNames: Record<ChartGranularity, string> = {
+  day: 'days',
+  week: 'weeks',
+  month: 'months',
+};
+
+// Pearson correlation; null when there is too little data or no variation
+function correlation(pairs: [number, number][]) {
+  if (pairs.length < 3) return null;
+  const meanX = pairs.reduce((sum, [x]) => sum + x, 0) / pairs.length;
+  const meanY = pairs.reduce((sum, [, y]) => sum + y, 0) / pairs.length;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (const [x, y] of pairs) {
+    sxy += (x - meanX) * (y - meanY);
+    sxx += (x - meanX) ** 2;
+    syy += (y - meanY) ** 2;
+  }
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+function describeCorrelation(r: number) {
+  const strength = Math.abs(r);
+  if (strength < 0.1) return 'no clear relationship';
+  const label = strength < 0.3 ? 'weak' : strength < 0.5 ? 'moderate' : 'strong';
+  return `${label} ${r > 0 ? 'positive' : 'negative'} relationship`;
+}
+
+type CombinedChartProps = {
+  pushups: ChartBucket[];
+  // In the user's distance unit
+  walks: ChartBucket[];
+  distanceLabel: string;
+  granularity: ChartGranularity;
+};
+
+export function CombinedChart({ pushups, walks, distanceLabel, granularity }: CombinedChartProps) {
+  const config = {
+    pushups: { label: 'Pushups', color: '#3b82f6' },
+    distance: { label: distanceLabel, color: '#22c55e' },
+  } satisfies ChartConfig;
+
+  const { rows, r, overlap } = useMemo(() => {
+    const byStart = new Map<string, { date: string; pushups?: number; distance?: number }>();
+    for (const bucket of pushups) {
+      byStart.set(bucket.start, { date: bucket.key, pushups: bucket.value });
+    }
+    for (const bucket of walks) {
+      byStart.set(bucket.start, { ...byStart.get(bucket.start), date: bucket.key, distance: bucket.value });
+    }
+    const rows = Array.from(byStart.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([, row]) => row);
+
+    // Both series are zero-filled from their own first entry, so only
+    // buckets in both span a time when both were being tracked
+    const pairs = rows
+      .filter(row => row.pushups !== undefined && row.distance !== undefined)
+      .map(row => [row.pushups!, row.distance!] as [number, number]);
+    return { rows, r: correlation(pairs), overlap: pairs.length };
+  }, [pushups, walks]);
+
+  return (
+    <div className="space-y-3">
+      <ChartContainer config={config} className="aspect-auto h-[300px] sm:h-[350px] w-full">
+        <ComposedChart data={rows}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+          <YAxis yAxisId="pushups" tickLine={false} axisLine={false} width={40} />
+          <YAxis yAxisId="distance" orientation="right" tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Bar yAxisId="pushups" dataKey="pushups" fill="var(--color-pushups)" radius={[2, 2, 0, 0]} />
+          <Line
+            yAxisId="distance"
+            type="monotone"
+            dataKey="distance"
+            stroke="var(--color-distance)"
+            strokeWidth={2}
+            dot={false}
+          />
+        </ComposedChart>
+      </ChartContainer>
+      <p className="text-sm text-muted-foreground">
+        {r === null
+          ? `Log both pushups and walks over at least 3 ${bucketNames[granularity]} to see how they relate.`
+          : `Correlation r = ${r.toFixed(2)} over ${overlap} ${bucketNames[granularity]}: ${describeCorrelation(r)}.`}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { differenceInCalendarDays, format, parseISO, startOfYear, subDays, subYears } from 'date-fns';
+import type { DateRange } from 'react-day-picker';
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useUnits } from "@/hooks/use-units";
+import { localDateIn } from "@/lib/timezone";
+import { CalendarRange } from 'lucide-react';
+
+export type RangePreset = 'all' | '7d' | '30d' | '90d' | 'year' | 'custom';
+
+// Local dates, inclusive. Only custom ranges carry them; presets are
+// resolved against the user's today by resolveRange, and all history has none.
+export type StatsRange = {
+  preset: RangePreset;
+  from?: string;
+  to?: string;
+};
+
+export const allTime: StatsRange = { preset: 'all' };
+
+const presetLabels: Record<Exclude<RangePreset, 'custom'>, string> = {
+  all: 'All time',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+  '90d': 'Last 90 days',
+  year: 'This year',
+};
+
+const presetDays: Partial<Record<RangePreset, number>> = { '7d': 7, '30d': 30, '90d': 90 };
+
+const toLocalDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// The dates a range covers, with presets counted back from `today`, the
+// user's local date. Resolved when the stats are fetched so "Last 7 days"
+// keeps following the calendar.
+export function resolveRange(range: StatsRange, today: string): StatsRange {
+  if (range.preset === 'all' || range.preset === 'custom') return range;
+  const end = parseISO(today);
+  const from = range.preset === 'year' ? startOfYear(end) : subDays(end, presetDays[range.preset]! - 1);
+  return { preset: range.preset, from: toLocalDate(from), to: today };
+}
+
+// The period just before a range, of the same length. "This year" compares
+// with the same stretch of last year instead.
+export function previousRange(range: StatsRange): StatsRange | null {
+  if (!range.from || !range.to) return null;
+  const from = parseISO(range.from);
+  const to = parseISO(range.to);
+  if (range.preset === 'year') {
+    return { preset: 'custom', from: toLocalDate(subYears(from, 1)), to: toLocalDate(subYears(to, 1)) };
+  }
+  const days = differenceInCalendarDays(to, from) + 1;
+  return { preset: 'custom', from: toLocalDate(subDays(from, days)), to: toLocalDate(subDays(to, days)) };
+}
+
+// Query string for /api/stats/:type
+export const rangeQuery = (range: StatsRange) =>
+  range.from && range.to ? `&from=${range.from}&to=${range.to}` : '';
+
+export function describeRange(range: StatsRange) {
+  if (range.preset !== 'custom') return presetLabels[range.preset];
+  return `${format(parseISO(range.from!), 'MMM d, yyyy')} – ${format(parseISO(range.to!), 'MMM d, yyyy')}`;
+}
+
+type DateRangePickerProps = {
+  value: StatsRange;
+  onChange: (range: StatsRange) => void;
+  className?: string;
+};
+
+export function DateRangePicker({ value, onChange, className }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>();
+  const { timeZone, weekStartsOn } = useUnits();
+  const today = localDateIn(timeZone);
+
+  const choosePreset = (preset: Exclude<RangePreset, 'custom'>) => {
+    onChange(preset === 'all' ? allTime : { preset });
+    setOpen(false);
+  };
+
+  // A custom range applies once both ends are picked
+  const handleSelect = (range: DateRange | undefined) => {
+    setDraft(range);
+    if (range?.from && range.to) {
+      onChange({ preset: 'custom', from: toLocalDate(range.from), to: toLocalDate(range.to) });
+      setOpen(false);
+    }
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={isOpen => {
+        setOpen(isOpen);
+        if (isOpen) {
+          const { from, to } = resolveRange(value, today);
+          setDraft(from && to ? { from: parseISO(from), to: parseISO(to) } : undefined);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <CalendarRange className="h-4 w-4 mr-2" />
+          {describeRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex sm:flex-col gap-1 p-3 flex-wrap sm:border-r">
+            {(Object.keys(presetLabels) as Exclude<RangePreset, 'custom'>[]).map(preset => (
+              <Button
+                key={preset}
+                variant={value.preset === preset ? 'default' : 'ghost'}
+                size="sm"
+                className="justify-start"
+                onClick={() => choosePreset(preset)}
+              >
+                {presetLabels[preset]}
+              </Button>
+            ))}
+          </div>
+          <Calendar
+            mode="range"
+            selected={draft}
+            onSelect={handleSelect}
+            disabled={{ after: parseISO(today) }}
+            defaultMonth={draft?.from ?? subDays(parseISO(today), 30)}
+            numberOfMonths={1}
+            weekStartsOn={weekStartsOn}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
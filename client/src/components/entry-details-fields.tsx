@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronDown, ChevronUp } from 'lucide-react';
+
+// Notes, tags and RPE as typed: tags are comma-separated, RPE is '' for none
+export type EntryDetailsInput = {
+  notes: string;
+  tags: string;
+  rpe: string;
+};
+
+export const emptyEntryDetails: EntryDetailsInput = { notes: '', tags: '', rpe: '' };
+
+export function parseTagInput(tags: string) {
+  return Array.from(new Set(tags.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+}
+
+// The shape the entry endpoints accept
+export function toEntryDetails(details: EntryDetailsInput) {
+  return {
+    notes: details.notes.trim() || null,
+    tags: parseTagInput(details.tags),
+    rpe: details.rpe ? parseInt(details.rpe, 10) : null,
+  };
+}
+
+export function fromEntryDetails(entry: { notes?: string | null; tags?: string[]; rpe?: number | null }): EntryDetailsInput {
+  return {
+    notes: entry.notes ?? '',
+    tags: (entry.tags ?? []).join(', '),
+    rpe: entry.rpe ? String(entry.rpe) : '',
+  };
+}
+
+const rpeOptions = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+type EntryDetailsFieldsProps = {
+  id: string;
+  value: EntryDetailsInput;
+  onChange: (value: EntryDetailsInput) => void;
+  // Tags used before, offered as one-tap additions
+  suggestions?: string[];
+  defaultOpen?: boolean;
+};
+
+export function EntryDetailsFields({ id, value, onChange, suggestions = [], defaultOpen = false }: EntryDetailsFieldsProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const currentTags = parseTagInput(value.tags);
+  const unusedSuggestions = suggestions.filter(tag => !currentTags.includes(tag)).slice(0, 8);
+  const hasDetails = value.notes !== '' || value.tags !== '' || value.rpe !== '';
+
+  if (!isOpen && !hasDetails) {
+    return (
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="px-0 text-muted-foreground"
+        onClick={() => setIsOpen(true)}
+      >
+        <ChevronDown className="h-4 w-4 mr-1" />
+        Add notes, tags or effort
+      </Button>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-tags`} className="text-base">Tags</Label>
+        <Input
+          id={`${id}-tags`}
+          placeholder="e.g. diamond, hills"
+          value={value.tags}
+          onChange={e => onChange({ ...value, tags: e.target.value })}
+          className="h-12"
+        />
+        {unusedSuggestions.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {unusedSuggestions.map(tag => (
+              <button
+                key={tag}
+                type="button"
+                className="text-xs px-2 py-1 rounded-full bg-muted hover:bg-muted/70"
+                onClick={() => onChange({ ...value, tags: [...currentTags, tag].join(', ') })}
+              >
+                + {tag}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-rpe`} className="text-base">Effort (RPE)</Label>
+        <Select
+          value={value.rpe || 'none'}
+          onValueChange={rpe => onChange({ ...value, rpe: rpe === 'none' ? '' : rpe })}
+        >
+          <SelectTrigger id={`${id}-rpe`} className="h-12">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Not rated</SelectItem>
+            {rpeOptions.map(rpe => (
+              <SelectItem key={rpe} value={String(rpe)}>
+                {rpe}{rpe === 1 ? ' – very easy' : rpe === 10 ? ' – max effort' : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`${id}-notes`} className="text-base">Notes</Label>
+        <Textarea
+          id={`${id}-notes`}
+          maxLength={1000}
+          value={value.notes}
+          onChange={e => onChange({ ...value, notes: e.target.value })}
+        />
+      </div>
+      {!defaultOpen && !hasDetails && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="px-0 text-muted-foreground"
+          onClick={() => setIsOpen(false)}
+        >
+          <ChevronUp className="h-4 w-4 mr-1" />
+          Hide details
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,46 @@
-import { useState, useRef } from 'react';
-import { format } from 'date-fns';
+import { useState, useRef, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Trash2, ChevronDown, ChevronUp } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import {
+  EntryDetailsFields,
+  emptyEntryDetails,
+  fromEntryDetails,
+  toEntryDetails,
+  type EntryDetailsInput,
+} from '@/components/entry-details-fields';
+import { TagFilter } from '@/components/tag-filter';
+import { useUnits } from '@/hooks/use-units';
 
 type Entry = {
   id: number;
   date: string;
+  localDate: string;
   count?: number;
-  miles?: number;
+  // Walk distance; `miles` is also sent for older clients
+  meters?: number;
+  // Per-set breakdown of a pushup entry, if it was logged in sets
+  sets?: { reps: number; restSeconds: number | null }[];
+  notes?: string | null;
+  tags?: string[];
+  rpe?: number | null;
+  // Only set on walks imported from a GPX/TCX track
+  movingSeconds?: number | null;
+  paceSecondsPerKm?: number | null;
+  elevationGainMeters?: number | null;
 };
 
 type EntryListProps = {
@@ -18,26 +49,165 @@ type EntryListProps = {
   entries: Entry[];
   type: 'pushups' | 'walks';
   onDelete: () => void;
+  onUpdate: () => void;
 };
 
-// Parse date without timezone shift
-const parseLocalDate = (dateString: string): Date => {
-  const dateOnly = dateString.split('T')[0];
-  const [year, month, day] = dateOnly.split('-').map(Number);
-  return new Date(year, month - 1, day);
+const formatDuration = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.round(totalSeconds % 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
 };
 
+// One line per set, with the rest taken after it when it was recorded
+function SetBreakdown({ sets }: { sets: NonNullable<Entry['sets']> }) {
+  return (
+    <ol className="mt-1 space-y-0.5 text-xs text-gray-500">
+      {sets.map((set, index) => (
+        <li key={index}>
+          Set {index + 1}: {set.reps}
+          {set.restSeconds != null && ` · rest ${formatDuration(set.restSeconds)}`}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Walk distances are edited to two decimals of the user's unit
+const roundDistance = (distance: number) => Math.round(distance * 100) / 100;
+
+// Moving time, pace and climb for walks that came from a track file
+function TrackDetails({ entry }: { entry: Entry }) {
+  const { fromMeters, distanceLabel } = useUnits();
+  const parts: string[] = [];
+  if (entry.movingSeconds) {
+    parts.push(formatDuration(entry.movingSeconds));
+  }
+  if (entry.paceSecondsPerKm) {
+    parts.push(`${formatDuration(entry.paceSecondsPerKm / fromMeters(1000))} /${distanceLabel.short}`);
+  }
+  if (entry.elevationGainMeters != null) {
+    parts.push(`↑ ${Math.round(entry.elevationGainMeters)} m`);
+  }
+
+  if (parts.length === 0) return null;
+  return <span className="text-xs text-gray-500">{parts.join(' · ')}</span>;
+}
+
+function EditEntryDialog({
+  entry,
+  type,
+  onClose,
+  onSave
+}: {
+  entry: Entry | null;
+  type: 'pushups' | 'walks';
+  onClose: () => void;
+  onSave: (entry: Entry, value: number | undefined, date: string, details: EntryDetailsInput) => Promise<void>;
+}) {
+  const [value, setValue] = useState('');
+  const [date, setDate] = useState('');
+  const [details, setDetails] = useState<EntryDetailsInput>(emptyEntryDetails);
+  const [isSaving, setIsSaving] = useState(false);
+  const { fromMeters, distanceLabel } = useUnits();
+
+  const currentValue = !entry
+    ? undefined
+    : type === 'pushups'
+      ? entry.count
+      : entry.meters !== undefined ? roundDistance(fromMeters(entry.meters)) : undefined;
+
+  // Load the tapped entry into the form each time the dialog opens
+  useEffect(() => {
+    if (!entry) return;
+    setValue(String(currentValue ?? ''));
+    setDate(entry.localDate);
+    setDetails(fromEntryDetails(entry));
+  }, [entry, type]);
+
+  const parsedValue = type === 'pushups' ? parseInt(value, 10) : parseFloat(value);
+  const isValid = !isNaN(parsedValue) && parsedValue > 0 && date !== '';
+  const setCount = entry?.sets?.length ?? 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!entry || !isValid) return;
+    setIsSaving(true);
+    try {
+      // Only send the value when it changed, so a date fix keeps the sets
+      await onSave(entry, parsedValue !== currentValue ? parsedValue : undefined, date, details);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={entry !== null}
+      onOpenChange={(open) => {
+        if (!open) onClose();
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit {type === 'pushups' ? 'Pushup' : 'Walk'} Entry</DialogTitle>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-entry-value">
+              {type === 'pushups' ? 'Number of Pushups' : `${distanceLabel.title} Walked`}
+            </Label>
+            <Input
+              id="edit-entry-value"
+              type="number"
+              step={type === 'pushups' ? '1' : '0.1'}
+              value={value}
+              onChange={e => setValue(e.target.value)}
+              className="text-lg h-12"
+            />
+            {setCount > 0 && parsedValue !== currentValue && (
+              <p className="text-xs text-muted-foreground">
+                Changing the total clears this entry's {setCount}-set breakdown.
+              </p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="edit-entry-date">Date</Label>
+            <Input
+              id="edit-entry-date"
+              type="date"
+              value={date}
+              onChange={e => setDate(e.target.value)}
+              className="text-lg h-12"
+            />
+          </div>
+          <EntryDetailsFields id="edit-entry-details" value={details} onChange={setDetails} defaultOpen />
+          <DialogFooter>
+            <Button type="submit" className="w-full h-12" disabled={!isValid || isSaving}>
+              {isSaving ? 'Saving...' : 'Save Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 function SwipeableEntry({
   entry,
   type,
-  onDelete
+  onDelete,
+  onEdit
 }: {
   entry: Entry;
   type: 'pushups' | 'walks';
   onDelete: (id: number) => void;
+  onEdit: (entry: Entry) => void;
 }) {
   const [offsetX, setOffsetX] = useState(0);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showSets, setShowSets] = useState(false);
   const [isSwiping, setIsSwiping] = useState(false);
   const startX = useRef(0);
   const startY = useRef(0);
@@ -80,8 +250,19 @@ function SwipeableEntry({
     await onDelete(entry.id);
   };
 
-  const value = type === 'pushups' ? entry.count : entry.miles;
-  const unit = type === 'pushups' ? 'pushups' : 'miles';
+  // A tap on an open row just closes it; a tap on a closed row edits it
+  const handleTap = () => {
+    if (offsetX > 0) {
+      setOffsetX(0);
+    } else {
+      onEdit(entry);
+    }
+  };
+
+  const { fromMeters, distanceLabel } = useUnits();
+  const value = type === 'pushups' ? entry.count : roundDistance(fromMeters(entry.meters ?? 0));
+  const unit = type === 'pushups' ? 'pushups' : distanceLabel.plural;
+  const sets = entry.sets ?? [];
 
   return (
     <div
@@ -105,32 +286,70 @@ function SwipeableEntry({
 
       {/* Entry content */}
       <div
-        className="relative bg-white flex items-center justify-between p-3 border-b"
+        className="relative bg-white flex items-center justify-between p-3 border-b cursor-pointer"
+        onClick={handleTap}
         style={{
           transform: `translateX(-${offsetX}px)`,
           transition: isSwiping ? 'none' : 'transform 0.2s ease-out'
         }}
       >
         <div className="flex flex-col">
-          <span className="font-medium">{value} {unit}</span>
+          <span className="font-medium">
+            {value} {unit}
+            {sets.length > 0 && (
+              <button
+                type="button"
+                className="ml-2 inline-flex items-center text-xs font-normal text-blue-500"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowSets(!showSets);
+                }}
+              >
+                {sets.length} sets
+                {showSets ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+              </button>
+            )}
+          </span>
           <span className="text-sm text-gray-500">
-            {format(parseLocalDate(entry.date), 'MMM d, yyyy')}
+            {format(parseISO(entry.localDate), 'MMM d, yyyy')}
           </span>
+          {type === 'walks' && <TrackDetails entry={entry} />}
+          {showSets && <SetBreakdown sets={sets} />}
+          {(entry.tags?.length || entry.rpe) ? (
+            <div className="flex flex-wrap items-center gap-1 mt-1">
+              {entry.tags?.map(tag => (
+                <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                  {tag}
+                </span>
+              ))}
+              {entry.rpe ? <span className="text-xs text-gray-500">RPE {entry.rpe}</span> : null}
+            </div>
+          ) : null}
+          {entry.notes && <p className="text-xs text-gray-500 mt-1 line-clamp-2">{entry.notes}</p>}
         </div>
         {offsetX < 20 && (
-          <span className="text-xs text-gray-400">← swipe</span>
+          <span className="text-xs text-gray-400">tap to edit · ← swipe</span>
         )}
       </div>
     </div>
   );
 }
 
-export function EntryList({ title, icon, entries, type, onDelete }: EntryListProps) {
+export function EntryList({ title, icon, entries, type, onDelete, onUpdate }: EntryListProps) {
   const [isExpanded, setIsExpanded] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<Entry | null>(null);
+  const [tagFilter, setTagFilter] = useState('');
   const { toast } = useToast();
+  const { toMeters } = useUnits();
 
-  // Sort entries by date (newest first)
-  const sortedEntries = [...entries].sort((a, b) =>
+  const allTags = Array.from(new Set(entries.flatMap(entry => entry.tags ?? []))).sort();
+  const filteredEntries = tagFilter
+    ? entries.filter(entry => entry.tags?.includes(tagFilter))
+    : entries;
+
+  // Sort entries by day, then time logged (newest first)
+  const sortedEntries = [...filteredEntries].sort((a, b) =>
+    b.localDate.localeCompare(a.localDate) ||
     new Date(b.date).getTime() - new Date(a.date).getTime()
   );
 
@@ -140,7 +359,15 @@ export function EntryList({ title, icon, entries, type, onDelete }: EntryListPro
   const handleDelete = async (id: number) => {
     try {
       await apiRequest('DELETE', `/api/${type}/${id}`);
-      toast({ title: 'Deleted', description: 'Entry removed' });
+      toast({
+        title: 'Deleted',
+        description: 'Entry moved to trash',
+        action: (
+          <ToastAction altText="Undo delete" onClick={() => handleUndo(id)}>
+            Undo
+          </ToastAction>
+        ),
+      });
       onDelete();
     } catch (error) {
       toast({
@@ -151,6 +378,41 @@ export function EntryList({ title, icon, entries, type, onDelete }: EntryListPro
     }
   };
 
+  // Deleted entries are only trashed, so undo just restores them
+  const handleUndo = async (id: number) => {
+    try {
+      await apiRequest('POST', `/api/trash/${id}/restore`);
+      toast({ title: 'Restored', description: 'Entry is back' });
+      onUpdate();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to restore entry',
+        variant: 'destructive'
+      });
+    }
+  };
+
+  const handleSave = async (entry: Entry, value: number | undefined, date: string, details: EntryDetailsInput) => {
+    try {
+      await apiRequest('PATCH', `/api/${type}/${entry.id}`, {
+        ...(value !== undefined && (type === 'pushups' ? { count: value } : { meters: toMeters(value) })),
+        // Only a new day moves the entry; resending its own day would reset its time
+        ...(date !== entry.localDate && { date }),
+        ...toEntryDetails(details),
+      });
+      toast({ title: 'Updated', description: 'Entry saved' });
+      setEditingEntry(null);
+      onUpdate();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update entry',
+        variant: 'destructive'
+      });
+    }
+  };
+
   if (entries.length === 0) {
     return null;
   }
@@ -162,8 +424,14 @@ export function EntryList({ title, icon, entries, type, onDelete }: EntryListPro
           {icon}
           {title}
           <span className="text-sm font-normal text-gray-500">
-            ({entries.length} entries)
+            ({filteredEntries.length} entries)
           </span>
+          <TagFilter
+            tags={allTags}
+            value={tagFilter}
+            onChange={setTagFilter}
+            className="h-8 w-36 text-sm font-normal ml-auto"
+          />
         </CardTitle>
       </CardHeader>
       <CardContent className="p-0">
@@ -174,11 +442,19 @@ export function EntryList({ title, icon, entries, type, onDelete }: EntryListPro
               entry={entry}
               type={type}
               onDelete={handleDelete}
+              onEdit={setEditingEntry}
             />
           ))}
         </div>
 
-        {entries.length > 5 && (
+        <EditEntryDialog
+          entry={editingEntry}
+          type={type}
+          onClose={() => setEditingEntry(null)}
+          onSave={handleSave}
+        />
+
+        {filteredEntries.length > 5 && (
           <button
             onClick={() => setIsExpanded(!isExpanded)}
             className="w-full py-3 text-sm text-blue-500 flex items-center justify-center gap-1 border-t"
@@ -189,7 +465,7 @@ export function EntryList({ title, icon, entries, type, onDelete }: EntryListPro
               </>
             ) : (
               <>
-                Show all {entries.length} entries <ChevronDown className="h-4 w-4" />
+                Show all {filteredEntries.length} entries <ChevronDown className="h-4 w-4" />
               </>
             )}
           </button>
@@ -0,0 +1,78 @@
+import { format, parseISO } from 'date-fns';
+import { getApiBaseUrl } from "@/lib/queryClient";
+import type { AnalysisFormat, FormAnalysisProviderName, FormScorecard } from "@db/schema";
+import { History, Video } from 'lucide-react';
+
+// A saved analysis from /api/form-checks
+export type FormCheckRecord = {
+  id: number;
+  exercise: string;
+  createdAt: string;
+  analysis: string;
+  // "text" when the reply couldn't be scored and is shown as sent
+  analysisFormat: AnalysisFormat;
+  // Null when the model's reply didn't match the schema
+  scorecard: FormScorecard | null;
+  // The backend and model that produced it
+  provider: FormAnalysisProviderName;
+  model: string;
+  durationSeconds: number | null;
+  thumbnailUrl: string | null;
+};
+
+export const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+type FormCheckHistoryProps = {
+  checks: FormCheckRecord[];
+  selectedId: number | null;
+  onSelect: (check: FormCheckRecord) => void;
+};
+
+export function FormCheckHistory({ checks, selectedId, onSelect }: FormCheckHistoryProps) {
+  if (checks.length === 0) return null;
+
+  return (
+    <div className="w-full space-y-2">
+      <h3 className="flex items-center gap-2 text-sm font-semibold">
+        <History className="h-4 w-4" />
+        Past analyses
+      </h3>
+      <ul className="max-h-64 overflow-y-auto divide-y rounded-lg border">
+        {checks.map(check => (
+          <li key={check.id}>
+            <button
+              type="button"
+              onClick={() => onSelect(check)}
+              className={`flex w-full items-center gap-3 p-2 text-left hover:bg-muted transition-colors ${
+                check.id === selectedId ? 'bg-muted' : ''
+              }`}
+            >
+              {check.thumbnailUrl ? (
+                <img
+                  src={`${getApiBaseUrl()}${check.thumbnailUrl}`}
+                  alt=""
+                  className="h-12 w-16 shrink-0 rounded object-cover bg-muted"
+                />
+              ) : (
+                <div className="flex h-12 w-16 shrink-0 items-center justify-center rounded bg-muted">
+                  <Video className="h-5 w-5 text-muted-foreground" />
+                </div>
+              )}
+              <div className="min-w-0 flex-1 text-sm">
+                <div className="font-medium capitalize">{check.exercise}</div>
+                <div className="text-xs text-muted-foreground">
+                  {format(parseISO(check.createdAt), 'MMM d, yyyy h:mm a')}
+                  {check.durationSeconds !== null && ` · ${formatDuration(check.durationSeconds)}`}
+                </div>
+              </div>
+              {check.scorecard && (
+                <div className="text-lg font-bold tabular-nums">{Math.round(check.scorecard.overallScore)}</div>
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
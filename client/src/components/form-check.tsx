@@ -1,24 +1,129 @@
-import { useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
+import { getApiBaseUrl, queryClient } from "@/lib/queryClient";
+import { FormCheckHistory, type FormCheckRecord } from "@/components/form-check-history";
+import { FormScorecardView } from "@/components/form-scorecard";
+import { VideoScrubber, type ScrubberMarker } from "@/components/video-scrubber";
+import { findTimestamps, linkTimestamps, seekTarget } from "@/lib/timestamps";
 import { Video, Upload, Loader2, Camera as CameraIcon } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { Capacitor } from "@capacitor/core";
 
-// Get API base URL for native apps
-function getApiBaseUrl(): string {
-  if (Capacitor.isNativePlatform()) {
-    return import.meta.env.VITE_API_URL || '';
-  }
-  return '';
-}
+type JobStage = 'queued' | 'compressing' | 'analyzing' | 'done' | 'failed';
+
+// Status from /api/form-check/jobs/:id
+type FormCheckJob = {
+  id: number;
+  stage: JobStage;
+  error: string | null;
+  formCheck: FormCheckRecord | null;
+  pollAfterMs: number | null;
+};
+
+// How far along the bar sits while a job is in each stage
+const stageProgress: Record<'uploading' | JobStage, { label: string; value: number }> = {
+  uploading: { label: 'Uploading video...', value: 10 },
+  queued: { label: 'Waiting for a free slot...', value: 25 },
+  compressing: { label: 'Compressing video...', value: 50 },
+  analyzing: { label: 'Analyzing your form...', value: 75 },
+  done: { label: 'Done', value: 100 },
+  failed: { label: 'Failed', value: 100 },
+};
+
+const jobUrl = (id: number) => `/api/form-check/jobs/${id}`;
 
 export function FormCheck() {
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [feedback, setFeedback] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [jobId, setJobId] = useState<number | null>(null);
+  // The analysis on show: the one just made, or one reopened from history
+  const [selected, setSelected] = useState<FormCheckRecord | null>(null);
   const [videoPreview, setVideoPreview] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [playback, setPlayback] = useState({ currentTime: 0, duration: 0 });
   const { toast } = useToast();
 
+  const { data: history = [], refetch: refreshHistory } = useQuery<FormCheckRecord[]>({
+    queryKey: ['/api/form-checks'],
+  });
+
+  // A job still running from before the app was closed is picked back up
+  const { data: pendingJobs, refetch: refreshPendingJobs } = useQuery<FormCheckJob[]>({
+    queryKey: ['/api/form-check/jobs'],
+  });
+  useEffect(() => {
+    if (pendingJobs?.length) setJobId(current => current ?? pendingJobs[0].id);
+  }, [pendingJobs]);
+
+  const { data: job, isError: jobLost } = useQuery<FormCheckJob>({
+    queryKey: [jobUrl(jobId ?? 0)],
+    enabled: jobId !== null,
+    refetchInterval: query => query.state.data?.pollAfterMs ?? false,
+  });
+
+  // A job that can no longer be fetched stops the polling rather than
+  // leaving the upload disabled
+  useEffect(() => {
+    if (jobLost) setJobId(null);
+  }, [jobLost]);
+
+  useEffect(() => {
+    if (!job || job.id !== jobId) return;
+    if (job.stage === 'done' && job.formCheck) {
+      setSelected(job.formCheck);
+      refreshHistory();
+      toast({
+        title: "Analysis complete",
+        description: "Check out your form feedback below",
+      });
+    } else if (job.stage === 'failed') {
+      toast({
+        title: "Error",
+        description: job.error || "Failed to analyze video",
+        variant: "destructive",
+      });
+    } else {
+      return;
+    }
+    setJobId(null);
+    refreshPendingJobs();
+  }, [job, jobId]);
+
+  // Times in the feedback only point somewhere while its video is loaded;
+  // a reopened past check has just the thumbnail
+  const canSeek = Boolean(selected && videoPreview);
+
+  const seekTo = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.min(seconds, video.duration || seconds);
+    video.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const markers = useMemo<ScrubberMarker[]>(() => {
+    if (!selected) return [];
+    if (selected.scorecard) {
+      return selected.scorecard.issues.map(issue => ({
+        seconds: issue.timestampSeconds,
+        label: issue.description,
+        severity: issue.severity,
+      }));
+    }
+    return findTimestamps(selected.analysis).map(({ text, seconds }) => ({ seconds, label: text }));
+  }, [selected]);
+
+  const isBusy = isUploading || jobId !== null;
+  const progress = isUploading ? stageProgress.uploading : job && jobId !== null ? stageProgress[job.stage] : null;
+
+  // The video itself isn't kept, so a past analysis shows its thumbnail instead
+  const openPastCheck = (check: FormCheckRecord) => {
+    setSelected(check);
+    setVideoPreview(null);
+  };
+
   // Handle web file upload (works on both web and native as fallback)
   const handleVideoUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -46,47 +151,38 @@ export function FormCheck() {
 
     const videoUrl = URL.createObjectURL(file);
     setVideoPreview(videoUrl);
-    setIsAnalyzing(true);
-    setFeedback(null);
+    setIsUploading(true);
+    setSelected(null);
 
     const formData = new FormData();
     formData.append('video', file);
+    formData.append('exercise', 'pushups');
 
     try {
       const baseUrl = getApiBaseUrl();
       const response = await fetch(`${baseUrl}/api/form-check`, {
         method: 'POST',
         body: formData,
+        credentials: 'include',
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.message || 'Failed to analyze video');
+        throw new Error(errorData.message || 'Failed to upload video');
       }
 
-      const data = await response.json();
-
-      if (!data.success) {
-        throw new Error(data.error || data.message || 'Failed to analyze video');
-      }
-
-      if (!data.analysis) {
-        throw new Error('No analysis received from server');
-      }
-
-      setFeedback(data.analysis);
-      toast({
-        title: "Analysis complete",
-        description: "Check out your form feedback below",
-      });
+      // Compressing and analyzing carry on server-side; poll the job from here
+      const queued: FormCheckJob = await response.json();
+      queryClient.setQueryData([jobUrl(queued.id)], queued);
+      setJobId(queued.id);
     } catch (error) {
       toast({
         title: "Error",
-        description: error instanceof Error ? error.message : "Failed to analyze video",
+        description: error instanceof Error ? error.message : "Failed to upload video",
         variant: "destructive",
       });
     } finally {
-      setIsAnalyzing(false);
+      setIsUploading(false);
     }
   };
 
@@ -125,37 +221,107 @@ export function FormCheck() {
               capture={Capacitor.isNativePlatform() ? "environment" : undefined}
               className="hidden"
               onChange={handleVideoUpload}
-              disabled={isAnalyzing}
+              disabled={isBusy}
             />
           </label>
 
           {videoPreview && (
             <div className="w-full max-w-lg mx-auto mt-4">
               <video
+                ref={videoRef}
                 src={videoPreview}
                 controls
                 className="w-full rounded-lg shadow-lg"
+                onLoadedMetadata={event => setPlayback({
+                  currentTime: event.currentTarget.currentTime,
+                  duration: event.currentTarget.duration,
+                })}
+                onTimeUpdate={event => setPlayback({
+                  currentTime: event.currentTarget.currentTime,
+                  duration: event.currentTarget.duration,
+                })}
               >
                 Your browser does not support the video tag.
               </video>
+              {canSeek && (
+                <VideoScrubber
+                  currentTime={playback.currentTime}
+                  duration={playback.duration}
+                  markers={markers}
+                  onSeek={seekTo}
+                />
+              )}
             </div>
           )}
 
-          {isAnalyzing && (
-            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-              <Loader2 className="h-4 w-4 animate-spin" />
-              <span>Analyzing your form...</span>
+          {progress && (
+            <div className="w-full max-w-lg space-y-2">
+              <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>{progress.label}</span>
+              </div>
+              <Progress value={progress.value} className="h-2" />
             </div>
           )}
 
-          {feedback && (
+          {selected && !videoPreview && selected.thumbnailUrl && (
+            <img
+              src={`${getApiBaseUrl()}${selected.thumbnailUrl}`}
+              alt="Frame from the analyzed video"
+              className="w-full max-w-xs mx-auto rounded-lg shadow"
+            />
+          )}
+
+          {selected && (
             <div className="w-full p-4 bg-muted rounded-lg">
-              <h3 className="font-semibold mb-2">AI Form Analysis</h3>
-              <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
-                <ReactMarkdown>{feedback}</ReactMarkdown>
-              </div>
+              <h3 className="font-semibold mb-1">AI Form Analysis</h3>
+              <p className="text-xs text-muted-foreground mb-2">
+                {format(parseISO(selected.createdAt), 'MMM d, yyyy h:mm a')} · {selected.provider} ({selected.model})
+              </p>
+              {selected.scorecard ? (
+                <FormScorecardView scorecard={selected.scorecard} onSeek={canSeek ? seekTo : undefined} />
+              ) : selected.analysisFormat === 'text' ? (
+                <div className="space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Unscored: the reply didn't match the scorecard format, so it's shown as received.
+                  </p>
+                  <pre className="text-xs whitespace-pre-wrap break-words font-mono">{selected.analysis}</pre>
+                </div>
+              ) : (
+                <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
+                  {canSeek ? (
+                    <ReactMarkdown
+                      components={{
+                        a: ({ href, children }) => {
+                          const seconds = seekTarget(href);
+                          if (seconds === null) return <a href={href}>{children}</a>;
+                          return (
+                            <button
+                              type="button"
+                              onClick={() => seekTo(seconds)}
+                              className="font-mono text-primary underline underline-offset-2"
+                            >
+                              {children}
+                            </button>
+                          );
+                        },
+                      }}
+                    >
+                      {linkTimestamps(selected.analysis)}
+                    </ReactMarkdown>
+                  ) : (
+                    <ReactMarkdown>{selected.analysis}</ReactMarkdown>
+                  )}
+                </div>
+              )}
             </div>
           )}
+
+          <FormCheckHistory
+            checks={history}
+            selectedId={selected?.id ?? null}
+            onSelect={openPastCheck}
+          />
         </div>
       </CardContent>
     </Card>
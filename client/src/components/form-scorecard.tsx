@@ -0,0 +1,90 @@
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import type { FormScoreCategory, FormScorecard, IssueSeverity } from "@db/schema";
+import { formatDuration } from "@/components/form-check-history";
+
+const categoryLabels: Record<FormScoreCategory, string> = {
+  elbowAngle: 'Elbow angle',
+  bodyAlignment: 'Body alignment',
+  depth: 'Depth',
+  tempo: 'Tempo',
+  core: 'Core',
+};
+
+const categoryOrder: FormScoreCategory[] = ['elbowAngle', 'bodyAlignment', 'depth', 'tempo', 'core'];
+
+const severityStyles: Record<IssueSeverity, string> = {
+  low: 'bg-slate-100 text-slate-700 hover:bg-slate-100',
+  medium: 'bg-amber-100 text-amber-800 hover:bg-amber-100',
+  high: 'bg-red-100 text-red-700 hover:bg-red-100',
+};
+
+// Green for good form, amber for needs work, red for risky
+export const scoreColor = (score: number) =>
+  score >= 75 ? 'text-green-600' : score >= 50 ? 'text-amber-600' : 'text-red-600';
+
+type FormScorecardViewProps = {
+  scorecard: FormScorecard;
+  // Set while the analyzed video is on screen, to jump to an issue
+  onSeek?: (seconds: number) => void;
+};
+
+export function FormScorecardView({ scorecard, onSeek }: FormScorecardViewProps) {
+  const issues = [...scorecard.issues].sort((a, b) => a.timestampSeconds - b.timestampSeconds);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <div className={`text-4xl font-bold ${scoreColor(scorecard.overallScore)}`}>
+          {Math.round(scorecard.overallScore)}
+        </div>
+        <p className="text-sm text-muted-foreground">{scorecard.summary}</p>
+      </div>
+
+      <div className="space-y-3">
+        {categoryOrder.map(category => {
+          const { score, notes } = scorecard.categories[category];
+          return (
+            <div key={category} className="space-y-1">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium">{categoryLabels[category]}</span>
+                <span className={`font-semibold ${scoreColor(score)}`}>{Math.round(score)}</span>
+              </div>
+              <Progress value={score} className="h-2" />
+              <p className="text-xs text-muted-foreground">{notes}</p>
+            </div>
+          );
+        })}
+      </div>
+
+      {issues.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold">Issues</h4>
+          <ul className="space-y-2">
+            {issues.map((issue, index) => (
+              <li key={index} className="text-sm space-y-1">
+                <div className="flex items-center gap-2">
+                  {onSeek ? (
+                    <button
+                      type="button"
+                      onClick={() => onSeek(issue.timestampSeconds)}
+                      className="font-mono text-xs text-primary underline underline-offset-2"
+                    >
+                      {formatDuration(issue.timestampSeconds)}
+                    </button>
+                  ) : (
+                    <span className="font-mono text-xs">{formatDuration(issue.timestampSeconds)}</span>
+                  )}
+                  <Badge className={severityStyles[issue.severity]}>{issue.severity}</Badge>
+                  <span className="text-xs text-muted-foreground">{categoryLabels[issue.category]}</span>
+                </div>
+                <p>{issue.description}</p>
+                <p className="text-muted-foreground">{issue.fix}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
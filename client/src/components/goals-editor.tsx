@@ -0,0 +1,139 @@
+import { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Target } from 'lucide-react';
+
+export type GoalPeriod = 'day' | 'week' | 'month';
+
+export type Goal = {
+  id: number;
+  exercise: string;
+  period: GoalPeriod;
+  target: number;
+  progress: number;
+};
+
+export const goalPeriodLabels: Record<GoalPeriod, string> = {
+  day: 'Today',
+  week: 'This week',
+  month: 'This month',
+};
+
+const periods: GoalPeriod[] = ['day', 'week', 'month'];
+
+const inputLabels: Record<GoalPeriod, string> = {
+  day: 'Daily target',
+  week: 'Weekly target',
+  month: 'Monthly target',
+};
+
+type GoalsEditorProps = {
+  exercise: 'pushups' | 'walks';
+  unit: string;
+  // Stored units per displayed unit, e.g. meters per mile for walks
+  scale?: number;
+  goals: Goal[];
+  onSaved: () => void;
+};
+
+export function GoalsEditor({ exercise, unit, scale = 1, goals, onSaved }: GoalsEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [targets, setTargets] = useState<Record<GoalPeriod, string>>({ day: '', week: '', month: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const displayTarget = (target: number) => String(Math.round((target / scale) * 100) / 100);
+
+  // Start from the saved targets every time the editor opens
+  useEffect(() => {
+    if (!open) return;
+    const current = { day: '', week: '', month: '' };
+    for (const goal of goals) {
+      current[goal.period] = displayTarget(goal.target);
+    }
+    setTargets(current);
+  }, [open, goals, scale]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const period of periods) {
+        const existing = goals.find(goal => goal.period === period);
+        const target = parseFloat(targets[period]);
+
+        if (!isNaN(target) && target > 0) {
+          // Compare as shown so an untouched converted target is not resaved
+          if (!existing || displayTarget(existing.target) !== String(target)) {
+            await apiRequest('POST', '/api/goals', { exercise, period, target: target * scale });
+          }
+        } else if (existing) {
+          // Clearing the field removes the goal
+          await apiRequest('DELETE', `/api/goals/${existing.id}`);
+        }
+      }
+      toast({ title: 'Goals saved' });
+      setOpen(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save goals',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="ml-auto text-sm font-normal">
+          <Target className="h-4 w-4 mr-1" />
+          Goals
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{exercise === 'pushups' ? 'Pushup' : 'Walk'} Goals</DialogTitle>
+          <DialogDescription>Leave a field empty for no goal in that period.</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {periods.map(period => (
+            <div key={period} className="space-y-2">
+              <Label htmlFor={`goal-${exercise}-${period}`}>
+                {inputLabels[period]} ({unit})
+              </Label>
+              <Input
+                id={`goal-${exercise}-${period}`}
+                type="number"
+                step={exercise === 'pushups' ? '1' : '0.1'}
+                min="0"
+                value={targets[period]}
+                onChange={e => setTargets({ ...targets, [period]: e.target.value })}
+                className="text-lg h-12"
+              />
+            </div>
+          ))}
+        </div>
+        <DialogFooter>
+          <Button onClick={handleSave} disabled={isSaving} className="w-full h-12">
+            {isSaving ? 'Saving...' : 'Save Goals'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
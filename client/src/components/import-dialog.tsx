@@ -0,0 +1,322 @@
+import { useState } from 'react';
+import { format, isValid, parse } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { describeUnlocked } from "@/components/badges-gallery";
+import { describeNewRecords } from "@/components/records-card";
+import { useUnits } from "@/hooks/use-units";
+import { apiRequest } from "@/lib/queryClient";
+import { parseCsv } from "@/lib/csv";
+import { Upload } from 'lucide-react';
+
+// Walk values are sent in meters
+type ImportRow = {
+  exercise: string;
+  value: number;
+  date: string;
+};
+
+type PreviewRow = ImportRow & {
+  localDate: string | null;
+  status: 'new' | 'duplicate' | 'invalid';
+  error?: string;
+};
+
+type ColumnMapping = {
+  date: string;
+  count: string;
+  distance: string;
+};
+
+const NONE = 'none';
+
+// Spreadsheet exports use a handful of date styles; anything else is passed
+// through as-is and the server flags it.
+const dateFormats = ['yyyy-MM-dd', 'M/d/yyyy', 'd.M.yyyy', 'MMM d, yyyy', 'M/d/yy'];
+
+const normalizeDate = (value: string): string => {
+  const trimmed = value.trim();
+  for (const dateFormat of dateFormats) {
+    const parsed = parse(trimmed, dateFormat, new Date());
+    if (isValid(parsed) && parsed.getFullYear() >= 1900) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+  return trimmed;
+};
+
+const guessColumn = (headers: string[], pattern: RegExp): string => {
+  const index = headers.findIndex(header => pattern.test(header.toLowerCase()));
+  return index === -1 ? NONE : String(index);
+};
+
+const statusStyles: Record<PreviewRow['status'], string> = {
+  new: 'text-green-600',
+  duplicate: 'text-amber-600',
+  invalid: 'text-red-600',
+};
+
+export function ImportDialog({ onImported, className }: { onImported: () => void; className?: string }) {
+  const [open, setOpen] = useState(false);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({ date: NONE, count: NONE, distance: NONE });
+  const [preview, setPreview] = useState<PreviewRow[] | null>(null);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const { toast } = useToast();
+  const { distanceUnit, distanceLabel, fromMeters, toMeters } = useUnits();
+
+  const reset = () => {
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({ date: NONE, count: NONE, distance: NONE });
+    setPreview(null);
+    setSkipDuplicates(true);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const [headerRow, ...rest] = parseCsv(await file.text());
+    if (!headerRow || rest.length === 0) {
+      toast({
+        title: 'Empty file',
+        description: 'The CSV needs a header row and at least one data row',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setHeaders(headerRow);
+    setDataRows(rest);
+    setPreview(null);
+    setMapping({
+      date: guessColumn(headerRow, /date|day/),
+      count: guessColumn(headerRow, /push|count|reps/),
+      distance: guessColumn(headerRow, /mile|km|walk|distance/),
+    });
+  };
+
+  // Each spreadsheet row can hold a pushup count, a walk distance in the
+  // user's unit, or both
+  const buildRows = (): ImportRow[] => {
+    const cell = (row: string[], column: string) =>
+      column === NONE ? '' : (row[Number(column)] ?? '').trim();
+
+    return dataRows.flatMap(row => {
+      const date = normalizeDate(cell(row, mapping.date));
+      const rows: ImportRow[] = [];
+      const count = cell(row, mapping.count).replace(/,/g, '');
+      const distance = cell(row, mapping.distance).replace(/,/g, '');
+      if (count) rows.push({ exercise: 'pushups', value: Number(count), date });
+      if (distance) rows.push({ exercise: 'walks', value: toMeters(Number(distance)), date });
+      return rows;
+    });
+  };
+
+  const handlePreview = async () => {
+    const rows = buildRows();
+    if (rows.length === 0) {
+      toast({
+        title: 'Nothing to import',
+        description: `Map a pushups or ${distanceLabel.plural} column that has values`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const res = await apiRequest('POST', '/api/import/preview', { rows });
+      const data = await res.json();
+      setPreview(data.rows);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to preview import',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    // Invalid rows are left out rather than blocking the whole import
+    const rows = preview
+      .filter(row => row.status !== 'invalid')
+      .map(({ exercise, value, date }) => ({ exercise, value, date }));
+
+    setIsWorking(true);
+    try {
+      const res = await apiRequest('POST', '/api/import', { rows, skipDuplicates });
+      const { imported, skipped, achievements, records } = await res.json();
+      if (achievements?.length) {
+        toast(describeUnlocked(achievements));
+      } else if (records?.length) {
+        toast(describeNewRecords(records, distanceUnit));
+      } else {
+        toast({
+          title: 'Import complete',
+          description: `Imported ${imported} entries${skipped ? `, skipped ${skipped} duplicates` : ''}`,
+        });
+      }
+      setOpen(false);
+      reset();
+      onImported();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import entries',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const counts = (preview ?? []).reduce(
+    (acc, row) => ({ ...acc, [row.status]: acc[row.status] + 1 }),
+    { new: 0, duplicate: 0, invalid: 0 } as Record<PreviewRow['status'], number>
+  );
+  const importCount = counts.new + (skipDuplicates ? 0 : counts.duplicate);
+
+  const columnSelect = (field: keyof ColumnMapping, label: string) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={mapping[field]}
+        onValueChange={value => {
+          setMapping({ ...mapping, [field]: value });
+          setPreview(null);
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE}>Not in file</SelectItem>
+          {headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {header || `Column ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={value => {
+        setOpen(value);
+        if (!value) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import from CSV</DialogTitle>
+          <DialogDescription>
+            Upload a spreadsheet export, match its columns, and check the rows before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Input type="file" accept=".csv,text/csv" onChange={handleFile} />
+
+          {headers.length > 0 && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              {columnSelect('date', 'Date column')}
+              {columnSelect('count', 'Pushups column')}
+              {columnSelect('distance', `${distanceLabel.title} column`)}
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <div className="text-sm text-muted-foreground">
+                {counts.new} new · {counts.duplicate} duplicates · {counts.invalid} invalid
+              </div>
+              <div className="max-h-72 overflow-y-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Exercise</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((row, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{row.localDate ?? row.date}</TableCell>
+                        <TableCell>{row.exercise}</TableCell>
+                        <TableCell>
+                          {isNaN(row.value)
+                            ? '—'
+                            : row.exercise === 'walks'
+                              ? Math.round(fromMeters(row.value) * 100) / 100
+                              : row.value}
+                        </TableCell>
+                        <TableCell className={statusStyles[row.status]}>
+                          {row.status === 'invalid' ? row.error : row.status === 'duplicate' ? 'Duplicate' : 'New'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {counts.duplicate > 0 && (
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    id="skip-duplicates"
+                    checked={skipDuplicates}
+                    onCheckedChange={checked => setSkipDuplicates(checked === true)}
+                  />
+                  <Label htmlFor="skip-duplicates">Skip rows that match an existing entry</Label>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          {preview ? (
+            <Button onClick={handleImport} disabled={isWorking || importCount === 0}>
+              {isWorking ? 'Importing...' : `Import ${importCount} entries`}
+            </Button>
+          ) : (
+            <Button onClick={handlePreview} disabled={isWorking || mapping.date === NONE}>
+              {isWorking ? 'Checking...' : 'Preview'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
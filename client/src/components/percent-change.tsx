@@ -0,0 +1,24 @@
+import { ArrowDownRight, ArrowUpRight } from 'lucide-react';
+
+// Change against the comparison period, shown under a stats card value
+export function PercentChange({ current, previous }: { current: number; previous: number }) {
+  if (previous === 0) {
+    return (
+      <div className="text-xs text-muted-foreground mt-1">
+        {current > 0 ? 'Nothing in the previous period' : 'No change'}
+      </div>
+    );
+  }
+
+  const change = ((current - previous) / previous) * 100;
+  const rounded = Math.round(change);
+  const Icon = rounded < 0 ? ArrowDownRight : ArrowUpRight;
+  const color = rounded > 0 ? 'text-green-600' : rounded < 0 ? 'text-red-600' : 'text-muted-foreground';
+
+  return (
+    <div className={`flex items-center justify-center gap-0.5 text-xs font-medium mt-1 ${color}`}>
+      <Icon className="h-3 w-3" />
+      {rounded > 0 ? '+' : ''}{rounded}% vs previous
+    </div>
+  );
+}
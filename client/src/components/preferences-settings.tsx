@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { DistanceUnit, SelectUser } from "@db/schema";
+import { distanceUnitLabels, weekDayNames } from "@/lib/units";
+import { Settings } from 'lucide-react';
+
+const deviceTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+type Preferences = Partial<
+  Pick<SelectUser, 'timezone' | 'restDaysPerWeek' | 'streakFreezesPerMonth' | 'weekStartsOn' | 'distanceUnit'>
+>;
+
+const restDayOptions = [0, 1, 2, 3, 4, 5, 6];
+const freezeOptions = [0, 1, 2, 3, 4, 5];
+
+export function PreferencesSettings() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const timeZones = useMemo(() => {
+    const zones = Intl.supportedValuesOf('timeZone');
+    return user && !zones.includes(user.timezone) ? [user.timezone, ...zones] : zones;
+  }, [user]);
+
+  async function updatePreferences(changes: Preferences) {
+    setIsSaving(true);
+    try {
+      const res = await apiRequest('PATCH', '/api/user', changes);
+      queryClient.setQueryData(['/api/user'], await res.json());
+      // Day or week boundaries or streak rules moved, so every aggregate needs
+      // recomputing. Distances are converted on the client from the user record.
+      queryClient.invalidateQueries({
+        predicate: (query) =>
+          ['/api/stats', '/api/goals', '/api/streaks', '/api/records'].some(prefix => String(query.queryKey[0]).startsWith(prefix)),
+      });
+      toast({ title: 'Preferences saved' });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to save preferences',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Settings className="h-5 w-5" />
+          Preferences
+        </CardTitle>
+        <CardDescription>
+          Controls which day your entries count toward, how weeks and distances are shown, and how streaks are kept
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="timezone" className="text-base">Timezone</Label>
+          <Select
+            value={user.timezone}
+            onValueChange={(timezone) => updatePreferences({ timezone })}
+            disabled={isSaving}
+          >
+            <SelectTrigger id="timezone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {user.timezone !== deviceTimeZone && (
+          <div className="flex items-center justify-between gap-4 text-sm bg-muted p-3 rounded-lg">
+            <span className="text-muted-foreground">
+              This device is set to {deviceTimeZone.replace(/_/g, ' ')}
+            </span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => updatePreferences({ timezone: deviceTimeZone })}
+              disabled={isSaving}
+            >
+              Use device timezone
+            </Button>
+          </div>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="rest-days" className="text-base">Rest days per week</Label>
+            <Select
+              value={String(user.restDaysPerWeek)}
+              onValueChange={(value) => updatePreferences({ restDaysPerWeek: Number(value) })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="rest-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {restDayOptions.map((n) => (
+                  <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="streak-freezes" className="text-base">Freezes per month</Label>
+            <Select
+              value={String(user.streakFreezesPerMonth)}
+              onValueChange={(value) => updatePreferences({ streakFreezesPerMonth: Number(value) })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="streak-freezes">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {freezeOptions.map((n) => (
+                  <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="week-start" className="text-base">Week starts on</Label>
+            <Select
+              value={String(user.weekStartsOn)}
+              onValueChange={(value) => updatePreferences({ weekStartsOn: Number(value) })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="week-start">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {weekDayNames.map((name, day) => (
+                  <SelectItem key={day} value={String(day)}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="distance-unit" className="text-base">Distance unit</Label>
+            <Select
+              value={user.distanceUnit}
+              onValueChange={(value) => updatePreferences({ distanceUnit: value as DistanceUnit })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="distance-unit">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(distanceUnitLabels) as DistanceUnit[]).map((unit) => (
+                  <SelectItem key={unit} value={unit}>{distanceUnitLabels[unit].title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Missed days use up the week's rest days first, then the month's freezes, before a streak resets.
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,246 @@
+import { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from "recharts";
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfYear,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+  type Day,
+} from 'date-fns';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useUnits } from "@/hooks/use-units";
+import { localDateIn } from "@/lib/timezone";
+
+export type ChartGranularity = 'day' | 'week' | 'month';
+
+// Buckets as returned in /api/stats/:type `series`, one per period with zeros for gaps
+export type ChartBucket = { start: string; key: string; value: number };
+
+type Overlay = 'ma7' | 'ma30' | 'trend' | 'goal';
+
+type ChartRow = {
+  date: string;
+  value?: number;
+  previous?: number;
+  ma7?: number;
+  ma30?: number;
+  trend?: number;
+};
+
+const overlayLabels: Record<Overlay, string> = {
+  ma7: '7-day avg',
+  ma30: '30-day avg',
+  trend: 'Trend',
+  goal: 'Goal',
+};
+
+const keyFormats: Record<ChartGranularity, string> = {
+  day: 'MM/dd',
+  week: 'MM/dd',
+  month: 'MMM yyyy',
+};
+
+// Trailing average over calendar days, so days without entries count as
+// zero. Early points average over the days since the first entry instead.
+function movingAverage(buckets: ChartBucket[], window: number) {
+  if (buckets.length === 0) return [];
+  const values = new Map(buckets.map(bucket => [bucket.start, bucket.value]));
+  const first = parseISO(buckets[0].start);
+  return buckets.map(bucket => {
+    const day = parseISO(bucket.start);
+    const span = Math.min(window, differenceInCalendarDays(day, first) + 1);
+    let sum = 0;
+    for (let offset = 0; offset < span; offset++) {
+      sum += values.get(format(addDays(day, -offset), 'yyyy-MM-dd')) ?? 0;
+    }
+    return sum / span;
+  });
+}
+
+// Least-squares line through the buckets, with x in days since the first one
+function linearFit(buckets: ChartBucket[]) {
+  if (buckets.length < 2) return null;
+  const first = parseISO(buckets[0].start);
+  const points = buckets.map(bucket => ({
+    x: differenceInCalendarDays(parseISO(bucket.start), first),
+    y: bucket.value,
+  }));
+  const meanX = points.reduce((sum, point) => sum + point.x, 0) / points.length;
+  const meanY = points.reduce((sum, point) => sum + point.y, 0) / points.length;
+  const sxx = points.reduce((sum, point) => sum + (point.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const slope = points.reduce((sum, point) => sum + (point.x - meanX) * (point.y - meanY), 0) / sxx;
+  return (date: Date) => Math.max(0, meanY + slope * (differenceInCalendarDays(date, first) - meanX));
+}
+
+// The trend is projected to the end of this month, or of this year on the
+// monthly chart, landing on the bucket that contains that day. `today` is
+// the user's local date, as the series' buckets are.
+function projectionTarget(granularity: ChartGranularity, weekStartsOn: Day, today: Date) {
+  const through = granularity === 'month' ? endOfYear(today) : endOfMonth(today);
+  const bucket = granularity === 'month'
+    ? startOfMonth(through)
+    : granularity === 'week' ? startOfWeek(through, { weekStartsOn }) : through;
+  return { through, bucket };
+}
+
+// Overlay values are only for reading off the chart, so one decimal is plenty
+const round = (value: number | undefined) => value === undefined ? undefined : Math.round(value * 10) / 10;
+
+type ProgressChartProps = {
+  buckets: ChartBucket[];
+  granularity: ChartGranularity;
+  label: string;
+  color: string;
+  // Target for the goal of the same period as the chart's buckets, if set
+  goal?: number;
+  // The period before the chart's range, overlaid bucket by bucket from the end
+  previous?: ChartBucket[];
+  formatValue?: (value: number) => string;
+};
+
+export function ProgressChart({
+  buckets,
+  granularity,
+  label,
+  color,
+  goal,
+  previous,
+  formatValue = value => String(Math.round(value)),
+}: ProgressChartProps) {
+  const [overlays, setOverlays] = useState<Overlay[]>([]);
+  const { timeZone, weekStartsOn } = useUnits();
+
+  // Moving averages are per day, so they only apply to the daily chart
+  const available: Overlay[] = [
+    ...(granularity === 'day' ? (['ma7', 'ma30'] as const) : []),
+    'trend',
+    ...(goal !== undefined ? (['goal'] as const) : []),
+  ];
+  const shown = (overlay: Overlay) => available.includes(overlay) && overlays.includes(overlay);
+
+  const { rows, projection } = useMemo(() => {
+    const ma7 = granularity === 'day' ? movingAverage(buckets, 7) : [];
+    const ma30 = granularity === 'day' ? movingAverage(buckets, 30) : [];
+    const fit = linearFit(buckets);
+
+    // Series start no earlier than the first entry, so the two periods are
+    // lined up from their ends
+    const offset = previous ? previous.length - buckets.length : 0;
+    const rows: ChartRow[] = buckets.map((bucket, index) => ({
+      date: bucket.key,
+      value: bucket.value,
+      previous: previous?.[index + offset]?.value,
+      ma7: round(ma7[index]),
+      ma30: round(ma30[index]),
+      trend: round(fit?.(parseISO(bucket.start))),
+    }));
+
+    if (!fit) return { rows, projection: null };
+
+    const { through, bucket } = projectionTarget(granularity, weekStartsOn, parseISO(localDateIn(timeZone)));
+    const projection = { through, value: fit(bucket) };
+    if (format(bucket, 'yyyy-MM-dd') > buckets[buckets.length - 1].start) {
+      rows.push({ date: format(bucket, keyFormats[granularity]), trend: round(projection.value) });
+    }
+    return { rows, projection };
+  }, [buckets, previous, granularity, weekStartsOn, timeZone]);
+
+  const config = {
+    value: { label, color },
+    previous: { label: 'Previous period', color: '#94a3b8' },
+    ma7: { label: overlayLabels.ma7, color: '#f59e0b' },
+    ma30: { label: overlayLabels.ma30, color: '#a855f7' },
+    trend: { label: overlayLabels.trend, color: '#64748b' },
+  } satisfies ChartConfig;
+
+  return (
+    <div className="space-y-3">
+      <ToggleGroup
+        type="multiple"
+        value={overlays}
+        onValueChange={value => setOverlays(value as Overlay[])}
+        className="justify-start flex-wrap"
+        aria-label="Chart overlays"
+      >
+        {available.map(overlay => (
+          <ToggleGroupItem key={overlay} value={overlay} size="sm" variant="outline" className="text-xs">
+            {overlayLabels[overlay]}
+          </ToggleGroupItem>
+        ))}
+      </ToggleGroup>
+
+      <ChartContainer config={config} className="aspect-auto h-[300px] sm:h-[350px] w-full">
+        <LineChart data={rows}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={16} />
+          <YAxis tickLine={false} axisLine={false} width={40} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line
+            type="monotone"
+            dataKey="value"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            // Dots only help while there are few enough buckets to tell apart
+            dot={buckets.length <= 60 ? { fill: "var(--color-value)" } : false}
+          />
+          {previous && (
+            <Line
+              type="monotone"
+              dataKey="previous"
+              stroke="var(--color-previous)"
+              strokeWidth={2}
+              strokeDasharray="3 3"
+              dot={false}
+            />
+          )}
+          {shown('ma7') && (
+            <Line type="monotone" dataKey="ma7" stroke="var(--color-ma7)" strokeWidth={2} dot={false} />
+          )}
+          {shown('ma30') && (
+            <Line type="monotone" dataKey="ma30" stroke="var(--color-ma30)" strokeWidth={2} dot={false} />
+          )}
+          {shown('trend') && (
+            <Line
+              type="linear"
+              dataKey="trend"
+              stroke="var(--color-trend)"
+              strokeWidth={2}
+              strokeDasharray="6 4"
+              dot={false}
+            />
+          )}
+          {shown('goal') && (
+            <ReferenceLine
+              y={goal}
+              stroke="#ef4444"
+              strokeDasharray="4 4"
+              ifOverflow="extendDomain"
+              label={{ value: `Goal ${formatValue(goal!)}`, position: 'insideTopRight', fontSize: 12 }}
+            />
+          )}
+        </LineChart>
+      </ChartContainer>
+
+      {shown('trend') && projection && (
+        <p className="text-sm text-muted-foreground">
+          Trend projects {formatValue(projection.value)} per {granularity} by{' '}
+          {format(projection.through, 'MMM d')}.
+        </p>
+      )}
+    </div>
+  );
+}
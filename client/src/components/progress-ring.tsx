@@ -0,0 +1,60 @@
+type ProgressRingProps = {
+  value: number;
+  target: number;
+  label: string;
+  color: string;
+  size?: number;
+  format?: (value: number) => string;
+};
+
+export function ProgressRing({
+  value,
+  target,
+  label,
+  color,
+  size = 88,
+  format = (n) => String(Math.round(n)),
+}: ProgressRingProps) {
+  const strokeWidth = 8;
+  const radius = (size - strokeWidth) / 2;
+  const circumference = 2 * Math.PI * radius;
+  const fraction = target > 0 ? Math.min(value / target, 1) : 0;
+  const isComplete = target > 0 && value >= target;
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <div className="relative" style={{ width: size, height: size }}>
+        <svg width={size} height={size} className="-rotate-90">
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={strokeWidth}
+            className="text-gray-200"
+          />
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            stroke={color}
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+            strokeDasharray={circumference}
+            strokeDashoffset={circumference * (1 - fraction)}
+            style={{ transition: 'stroke-dashoffset 0.5s ease-out' }}
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-center leading-tight">
+          <span className="text-sm font-bold">{format(value)}</span>
+          <span className="text-[10px] text-muted-foreground">of {format(target)}</span>
+        </div>
+      </div>
+      <span className={`text-xs ${isComplete ? 'font-semibold' : 'text-muted-foreground'}`} style={isComplete ? { color } : undefined}>
+        {label}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { format, parseISO } from 'date-fns';
+import { Crown } from 'lucide-react';
+import { METERS_PER_UNIT, type DistanceUnit } from "@db/units";
+import { distanceUnitLabels } from '@/lib/units';
+
+type RecordScope = 'entry' | 'day' | 'week' | 'month';
+
+export type PersonalRecord = {
+  key: string;
+  exercise: string;
+  scope: RecordScope;
+  label: string;
+  record: {
+    value: number;
+    entryId: number | null;
+    start: string;
+    end: string;
+  } | null;
+};
+
+// A record just set by a new entry, as returned from the add-entry endpoints
+export type NewRecord = Omit<PersonalRecord, 'record'> & NonNullable<PersonalRecord['record']> & {
+  previous: number;
+};
+
+// Walk records are in meters
+const formatValue = (exercise: string, value: number, unit: DistanceUnit) =>
+  exercise === 'walks'
+    ? `${(value / METERS_PER_UNIT[unit]).toFixed(1)} ${distanceUnitLabels[unit].short}`
+    : `${Math.round(value)}`;
+
+function formatSpan(scope: RecordScope, start: string, end: string) {
+  if (scope === 'month') return format(parseISO(start), 'MMMM yyyy');
+  if (scope === 'week') return `${format(parseISO(start), 'MMM d')} – ${format(parseISO(end), 'MMM d, yyyy')}`;
+  return format(parseISO(start), 'MMM d, yyyy');
+}
+
+export function describeNewRecords(records: NewRecord[], unit: DistanceUnit) {
+  return {
+    title: records.length === 1 ? '🎉 New personal record!' : `🎉 ${records.length} new personal records!`,
+    description: records
+      .map(record => `${record.label}: ${formatValue(record.exercise, record.value, unit)}`)
+      .join(', '),
+  };
+}
+
+export function RecordsCard({ records, unit }: { records: PersonalRecord[]; unit: DistanceUnit }) {
+  const groups = [
+    { exercise: 'pushups', title: 'Pushups', className: 'bg-primary/10' },
+    { exercise: 'walks', title: 'Walks', className: 'bg-green-500/10' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Crown className="h-5 w-5" />
+          Personal Records
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid sm:grid-cols-2 gap-6">
+        {groups.map(group => (
+          <div key={group.exercise} className="space-y-2">
+            <div className="text-sm font-semibold text-muted-foreground">{group.title}</div>
+            {records
+              .filter(record => record.exercise === group.exercise)
+              .map(({ key, exercise, scope, label, record }) => (
+                <div key={key} className={`flex items-center justify-between gap-4 p-3 rounded-lg ${group.className}`}>
+                  <div>
+                    <div className="text-sm">{label}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {record ? formatSpan(scope, record.start, record.end) : 'No entries yet'}
+                    </div>
+                  </div>
+                  <div className="text-xl font-bold">{record ? formatValue(exercise, record.value, unit) : '–'}</div>
+                </div>
+              ))}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
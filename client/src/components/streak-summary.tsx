@@ -0,0 +1,53 @@
+import { Flame, AlertTriangle } from 'lucide-react';
+
+export type Streak = {
+  exercise: string;
+  current: number;
+  longest: number;
+  activeToday: boolean;
+  atRisk: boolean;
+  restDaysLeft: number;
+  freezesLeft: number;
+};
+
+export type StreaksResponse = {
+  rules: { restDaysPerWeek: number; freezesPerMonth: number };
+  streaks: Streak[];
+};
+
+const days = (n: number) => `${n} ${n === 1 ? 'day' : 'days'}`;
+
+export function StreakSummary({ streak }: { streak?: Streak }) {
+  if (!streak) {
+    return null;
+  }
+
+  return (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between gap-4 p-3 bg-orange-500/10 rounded-lg">
+        <div className="flex items-center gap-2">
+          <Flame className={`h-5 w-5 ${streak.current > 0 ? 'text-orange-500' : 'text-muted-foreground'}`} />
+          <span className="font-semibold">{days(streak.current)}</span>
+          <span className="text-sm text-muted-foreground">streak</span>
+        </div>
+        <div className="text-sm text-muted-foreground">Best: {days(streak.longest)}</div>
+      </div>
+      {streak.atRisk ? (
+        <div className="flex items-center gap-2 text-sm text-orange-600">
+          <AlertTriangle className="h-4 w-4" />
+          Log today to keep your streak going
+        </div>
+      ) : (
+        streak.current > 0 &&
+        !streak.activeToday &&
+        (streak.restDaysLeft > 0 || streak.freezesLeft > 0) && (
+          <div className="text-xs text-muted-foreground">
+            {streak.restDaysLeft > 0
+              ? `${streak.restDaysLeft} rest ${streak.restDaysLeft === 1 ? 'day' : 'days'} left this week`
+              : `${streak.freezesLeft} ${streak.freezesLeft === 1 ? 'freeze' : 'freezes'} left this month`}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tag } from 'lucide-react';
+
+export type TagCount = {
+  tag: string;
+  entries: number;
+};
+
+type TagFilterProps = {
+  tags: string[];
+  // '' means no filter
+  value: string;
+  onChange: (tag: string) => void;
+  className?: string;
+};
+
+// Radix Select can't use '' as an item value, so "all" stands in for it
+export function TagFilter({ tags, value, onChange, className }: TagFilterProps) {
+  if (tags.length === 0 && !value) {
+    return null;
+  }
+
+  return (
+    <Select value={value || 'all'} onValueChange={tag => onChange(tag === 'all' ? '' : tag)}>
+      <SelectTrigger className={className ?? 'h-9 w-40 text-sm'} aria-label="Filter by tag">
+        <Tag className="h-4 w-4 mr-1 shrink-0" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All tags</SelectItem>
+        {(tags.includes(value) || !value ? tags : [value, ...tags]).map(tag => (
+          <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,85 @@
+import { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { getApiBaseUrl } from "@/lib/queryClient";
+import { describeUnlocked } from "@/components/badges-gallery";
+import { describeNewRecords } from "@/components/records-card";
+import { useUnits } from "@/hooks/use-units";
+import { MapPin, Loader2 } from 'lucide-react';
+
+export function TrackImportButton({ onImported }: { onImported: () => void }) {
+  const [isUploading, setIsUploading] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { distanceUnit, distanceLabel, fromMeters } = useUnits();
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('exercise', 'walks');
+
+    setIsUploading(true);
+    try {
+      const response = await fetch(`${getApiBaseUrl()}/api/tracks`, {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to import track');
+      }
+
+      if (data.achievements?.length) {
+        toast(describeUnlocked(data.achievements));
+      } else if (data.records?.length) {
+        toast(describeNewRecords(data.records, distanceUnit));
+      } else {
+        toast({
+          title: 'Walk imported',
+          description: `${fromMeters(data.value).toFixed(2)} ${distanceLabel.plural} from ${file.name}`,
+        });
+      }
+      onImported();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to import track',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".gpx,.tcx"
+        className="hidden"
+        onChange={handleFile}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full h-12"
+        disabled={isUploading}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isUploading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <MapPin className="h-4 w-4 mr-2" />
+        )}
+        {isUploading ? 'Importing...' : 'Import GPX/TCX'}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,155 @@
+import { useState } from 'react';
+import { useQuery } from "@tanstack/react-query";
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RotateCcw, Trash2 } from 'lucide-react';
+import { useUnits } from '@/hooks/use-units';
+
+type TrashedEntry = {
+  id: number;
+  exercise: string;
+  value: number;
+  localDate: string;
+  deletedAt: string;
+  purgeAt: string;
+};
+
+function purgeLabel(purgeAt: string) {
+  const days = differenceInCalendarDays(parseISO(purgeAt), new Date());
+  if (days <= 0) return 'Deleted for good today';
+  return `Deleted for good in ${days} day${days === 1 ? '' : 's'}`;
+}
+
+// Trashed entries can be restored until the server purges them after 30 days
+export function TrashDialog({ onRestored, className }: { onRestored: () => void; className?: string }) {
+  const [open, setOpen] = useState(false);
+  const [busyId, setBusyId] = useState<number | 'all' | null>(null);
+  const { toast } = useToast();
+  const { fromMeters, distanceLabel } = useUnits();
+
+  // Walks are stored in meters
+  const formatValue = (entry: TrashedEntry) =>
+    entry.exercise === 'walks'
+      ? `${fromMeters(entry.value).toFixed(1)} ${distanceLabel.plural}`
+      : `${Math.round(entry.value)} ${entry.exercise}`;
+
+  const { data: entries = [], isLoading, refetch } = useQuery<TrashedEntry[]>({
+    queryKey: ['/api/trash'],
+    enabled: open,
+  });
+
+  const run = async (id: number | 'all', action: () => Promise<unknown>, failure: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      await refetch();
+    } catch (error) {
+      toast({ title: 'Error', description: failure, variant: 'destructive' });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (id: number) =>
+    run(id, async () => {
+      await apiRequest('POST', `/api/trash/${id}/restore`);
+      toast({ title: 'Restored', description: 'Entry is back' });
+      onRestored();
+    }, 'Failed to restore entry');
+
+  const handlePurge = (id: number) =>
+    run(id, () => apiRequest('DELETE', `/api/trash/${id}`), 'Failed to delete entry');
+
+  const handleEmpty = () =>
+    run('all', async () => {
+      const res = await apiRequest('DELETE', '/api/trash');
+      const { purged } = await res.json();
+      toast({ title: 'Trash emptied', description: `${purged} entries deleted for good` });
+    }, 'Failed to empty trash');
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={value => {
+        setOpen(value);
+        // Entries are trashed from elsewhere on the page, so reload on every open
+        if (value) refetch();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className={className}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Trash
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted entries stay here for 30 days before they are removed for good.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-80 overflow-y-auto divide-y border rounded-lg">
+          {isLoading ? (
+            <div className="p-4 text-sm text-muted-foreground">Loading...</div>
+          ) : entries.length === 0 ? (
+            <div className="p-4 text-sm text-muted-foreground">The trash is empty.</div>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between gap-2 p-3">
+                <div>
+                  <div className="font-medium">{formatValue(entry)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {format(parseISO(entry.localDate), 'MMM d, yyyy')} · {purgeLabel(entry.purgeAt)}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Restore entry"
+                    disabled={busyId !== null}
+                    onClick={() => handleRestore(entry.id)}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    aria-label="Delete entry permanently"
+                    disabled={busyId !== null}
+                    onClick={() => handlePurge(entry.id)}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="destructive"
+            onClick={handleEmpty}
+            disabled={busyId !== null || entries.length === 0}
+          >
+            {busyId === 'all' ? 'Emptying...' : 'Empty trash'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
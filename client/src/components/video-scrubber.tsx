@@ -0,0 +1,87 @@
+import type { IssueSeverity } from "@db/schema";
+import { formatDuration } from "@/components/form-check-history";
+
+export type ScrubberMarker = {
+  seconds: number;
+  label: string;
+  // Markers parsed from plain feedback have no severity
+  severity?: IssueSeverity;
+};
+
+const markerColors: Record<IssueSeverity | 'none', string> = {
+  none: 'bg-primary',
+  low: 'bg-slate-500',
+  medium: 'bg-amber-500',
+  high: 'bg-red-600',
+};
+
+const KEYBOARD_STEP_SECONDS = 5;
+
+type VideoScrubberProps = {
+  currentTime: number;
+  duration: number;
+  markers: ScrubberMarker[];
+  onSeek: (seconds: number) => void;
+};
+
+// Seek bar under the video preview, with a tick for each flagged moment
+export function VideoScrubber({ currentTime, duration, markers, onSeek }: VideoScrubberProps) {
+  if (!duration) return null;
+
+  const percent = (seconds: number) => `${Math.min(100, (seconds / duration) * 100)}%`;
+  // The model sometimes cites a time past the end of the clip
+  const shown = markers.filter(marker => marker.seconds <= duration);
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    onSeek(((event.clientX - rect.left) / rect.width) * duration);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowRight') onSeek(Math.min(duration, currentTime + KEYBOARD_STEP_SECONDS));
+    else if (event.key === 'ArrowLeft') onSeek(Math.max(0, currentTime - KEYBOARD_STEP_SECONDS));
+    else return;
+    event.preventDefault();
+  };
+
+  return (
+    <div className="space-y-1">
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label="Video position"
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={formatDuration(currentTime)}
+        onClick={handleClick}
+        onKeyDown={handleKeyDown}
+        className="relative h-6 cursor-pointer focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+      >
+        <div className="absolute inset-x-0 top-1/2 h-1.5 -translate-y-1/2 rounded-full bg-secondary">
+          <div className="h-full rounded-full bg-primary/60" style={{ width: percent(currentTime) }} />
+        </div>
+        {shown.map((marker, index) => (
+          <button
+            key={index}
+            type="button"
+            title={`${formatDuration(marker.seconds)} – ${marker.label}`}
+            aria-label={`Jump to ${formatDuration(marker.seconds)}: ${marker.label}`}
+            onClick={event => {
+              event.stopPropagation();
+              onSeek(marker.seconds);
+            }}
+            className={`absolute top-1/2 h-4 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-sm ${
+              markerColors[marker.severity ?? 'none']
+            } hover:scale-125 transition-transform`}
+            style={{ left: percent(marker.seconds) }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-xs text-muted-foreground tabular-nums">
+        <span>{formatDuration(currentTime)}</span>
+        <span>{formatDuration(duration)}</span>
+      </div>
+    </div>
+  );
+}
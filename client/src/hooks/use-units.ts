@@ -0,0 +1,22 @@
+import type { Day } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { METERS_PER_UNIT } from "@db/units";
+import { distanceUnitLabels } from "@/lib/units";
+
+// The signed-in user's timezone, week start and distance unit, with
+// converters for the meters the API speaks
+export function useUnits() {
+  const { user } = useAuth();
+  const distanceUnit = user?.distanceUnit ?? 'mi';
+  const metersPerUnit = METERS_PER_UNIT[distanceUnit];
+
+  return {
+    distanceUnit,
+    distanceLabel: distanceUnitLabels[distanceUnit],
+    metersPerUnit,
+    timeZone: user?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+    weekStartsOn: (user?.weekStartsOn ?? 0) as Day,
+    fromMeters: (meters: number) => meters / metersPerUnit,
+    toMeters: (distance: number) => distance * metersPerUnit,
+  };
+}
@@ -3,7 +3,7 @@ import { Capacitor } from "@capacitor/core";
 import { CapacitorHttp, HttpResponse } from "@capacitor/core";
 
 // Get the API base URL - empty for web (relative URLs), full URL for native
-function getApiBaseUrl(): string {
+export function getApiBaseUrl(): string {
   if (Capacitor.isNativePlatform()) {
     // For native apps, use the configured backend URL
     return import.meta.env.VITE_API_URL || '';
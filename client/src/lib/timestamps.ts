@@ -0,0 +1,29 @@
+// Times the form-check model writes into its feedback: "0:12", "1:05",
+// "12s" or "12 seconds"
+const timestampPattern = /\b(?:(\d{1,2}):([0-5]\d)|(\d{1,3}(?:\.\d+)?)\s?(?:s|secs?|seconds?))\b/g;
+
+export type Timestamp = {
+  text: string;
+  seconds: number;
+};
+
+const toSeconds = (match: RegExpMatchArray) =>
+  match[1] !== undefined ? Number(match[1]) * 60 + Number(match[2]) : Number(match[3]);
+
+export function findTimestamps(text: string): Timestamp[] {
+  return Array.from(text.matchAll(timestampPattern), match => ({ text: match[0], seconds: toSeconds(match) }));
+}
+
+// Turns each time into a `#t=<seconds>` link, for rendering as a seek button
+export function linkTimestamps(markdown: string) {
+  return markdown.replace(timestampPattern, (text, ...groups) => {
+    const [minutes, secs, plain] = groups as (string | undefined)[];
+    const seconds = minutes !== undefined ? Number(minutes) * 60 + Number(secs) : Number(plain);
+    return `[${text}](#t=${seconds})`;
+  });
+}
+
+export const seekTarget = (href: string | undefined) => {
+  const match = href?.match(/^#t=(\d+(?:\.\d+)?)$/);
+  return match ? Number(match[1]) : null;
+};
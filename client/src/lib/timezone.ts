@@ -0,0 +1,10 @@
+// Calendar date (YYYY-MM-DD) of an instant as seen from the given timezone,
+// matching how the server assigns entries to days
+export function localDateIn(timeZone: string, instant: Date = new Date()) {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(instant);
+}
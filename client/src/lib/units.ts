@@ -0,0 +1,10 @@
+import type { DistanceUnit } from "@db/schema";
+
+// Distances come from the API in meters and are shown in the user's unit,
+// converted with METERS_PER_UNIT from @db/units
+export const distanceUnitLabels: Record<DistanceUnit, { short: string; plural: string; title: string }> = {
+  mi: { short: 'mi', plural: 'miles', title: 'Miles' },
+  km: { short: 'km', plural: 'km', title: 'Kilometers' },
+};
+
+export const weekDayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -35,7 +35,10 @@ export default function AuthPage() {
     if (activeTab === "login") {
       await loginMutation.mutateAsync(data);
     } else {
-      await registerMutation.mutateAsync(data);
+      await registerMutation.mutateAsync({
+        ...data,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
     }
     setLocation("/");
   };
@@ -1,59 +1,163 @@
-import { useState, useMemo, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
+import { useForm, useFieldArray } from "react-hook-form";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Form, FormControl, FormField, FormItem, FormLabel } from "@/components/ui/form";
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts";
-import { format, startOfWeek, startOfMonth } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Dumbbell, Trophy, Footprints, LogOut, List } from "lucide-react";
+import { useUnits } from "@/hooks/use-units";
+import { Activity, Dumbbell, Trophy, Footprints, LogOut, List, Plus, X } from "lucide-react";
 import { FormCheck } from "@/components/form-check";
 import { HealthKitSettings } from "@/components/healthkit-settings";
+import { PreferencesSettings } from "@/components/preferences-settings";
+import { ExportMenu } from "@/components/export-menu";
+import { ImportDialog } from "@/components/import-dialog";
+import { TrashDialog } from "@/components/trash-dialog";
+import { TrackImportButton } from "@/components/track-import";
+import { GoalsEditor, goalPeriodLabels, type Goal } from "@/components/goals-editor";
+import { ProgressRing } from "@/components/progress-ring";
+import { StreakSummary, type StreaksResponse } from "@/components/streak-summary";
+import { BadgesGallery, describeUnlocked, type Achievement } from "@/components/badges-gallery";
+import { RecordsCard, describeNewRecords, type PersonalRecord, type NewRecord } from "@/components/records-card";
 import { EntryList } from "@/components/entry-list";
+import { ProgressChart, type ChartGranularity } from "@/components/progress-chart";
+import { CombinedChart } from "@/components/combined-chart";
+import {
+  DateRangePicker,
+  allTime,
+  previousRange,
+  rangeQuery,
+  resolveRange,
+  type StatsRange,
+} from "@/components/date-range-picker";
+import { PercentChange } from "@/components/percent-change";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ActivityHeatmap, heatmapStart } from "@/components/activity-heatmap";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  EntryDetailsFields,
+  emptyEntryDetails,
+  toEntryDetails,
+  type EntryDetailsInput,
+} from "@/components/entry-details-fields";
+import { TagFilter, type TagCount } from "@/components/tag-filter";
 import { healthKitService } from "@/services/healthkit";
 import { Capacitor } from "@capacitor/core";
-import { apiRequest } from "@/lib/queryClient";
+import type { DistanceUnit } from "@db/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { localDateIn } from "@/lib/timezone";
 
-type PushupEntry = {
+type PushupSet = {
+  reps: number;
+  restSeconds: number | null;
+};
+
+type EntryDetails = {
+  notes: string | null;
+  tags: string[];
+  rpe: number | null;
+};
+
+type PushupEntry = EntryDetails & {
   id: number;
   count: number;
   date: string;
+  localDate: string;
+  sets: PushupSet[];
 };
 
-type WalkEntry = {
+type WalkEntry = EntryDetails & {
   id: number;
+  meters: number;
   miles: number;
   date: string;
+  localDate: string;
+  movingSeconds: number | null;
+  paceSecondsPerKm: number | null;
+  elevationGainMeters: number | null;
+};
+
+// Server-side aggregation from /api/stats/:type; walk values are in meters
+type ExerciseStats = {
+  total: number;
+  entries: number;
+  firstDate: string | null;
+  averages: { perDay: number; perBucket: number };
+  series: Array<{ start: string; key: string; value: number }>;
 };
 
-// Helper to parse date without timezone shift
-const parseLocalDate = (dateString: string): Date => {
-  // Extract just the date portion (YYYY-MM-DD) and create local date
-  const dateOnly = dateString.split('T')[0];
-  const [year, month, day] = dateOnly.split('-').map(Number);
-  return new Date(year, month - 1, day);
+// Extra fields returned when an entry is added
+type EntryFeedback = {
+  achievements?: Achievement[];
+  records?: NewRecord[];
 };
 
 type PushupFormData = {
   count: number;
   date: string;
+  // Kept as typed so half-filled rows don't turn into NaN
+  sets: { reps: string; restSeconds: string }[];
+  details: EntryDetailsInput;
 };
 
 type WalkFormData = {
-  miles: number;
+  // In the user's distance unit
+  distance: number;
   date: string;
+  details: EntryDetailsInput;
 };
 
 type ViewType = 'daily' | 'weekly' | 'monthly';
 
+const goalPeriodOrder: Goal['period'][] = ['day', 'week', 'month'];
+
+// Only one toast shows at a time, so a new badge takes the spot, then a
+// new record, then the plain confirmation
+function entryAddedToast(feedback: EntryFeedback, description: string, unit: DistanceUnit) {
+  if (feedback.achievements?.length) return describeUnlocked(feedback.achievements);
+  if (feedback.records?.length) return describeNewRecords(feedback.records, unit);
+  return { title: "Success!", description };
+}
+
+const granularityFor: Record<ViewType, ChartGranularity> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+};
+
+const statsUrl = (type: 'pushups' | 'walks', view: ViewType, tag = '', range: StatsRange = allTime) =>
+  `/api/stats/${type}?granularity=${granularityFor[view]}${tag ? `&tag=${encodeURIComponent(tag)}` : ''}${rangeQuery(range)}`;
+
+// Walk series come back in meters; charts plot the user's unit
+const scaleSeries = (series: ExerciseStats['series'] | undefined, divisor: number) =>
+  (series ?? []).map(bucket => ({ ...bucket, value: bucket.value / divisor }));
+
+// Stats queries are keyed per granularity, tag and range, so drop every cached variant
+const invalidateStats = (type: 'pushups' | 'walks') =>
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(`/api/stats/${type}`),
+  });
+
 export default function Home() {
   const { toast } = useToast();
   const { user, logoutMutation } = useAuth();
+  const { distanceUnit, distanceLabel, metersPerUnit, timeZone, weekStartsOn, fromMeters, toMeters } = useUnits();
   const [view, setView] = useState<ViewType>('daily');
   const [walkView, setWalkView] = useState<ViewType>('daily');
+  const [combinedView, setCombinedView] = useState<ViewType>('weekly');
+  const [pushupTag, setPushupTag] = useState('');
+  const [walkTag, setWalkTag] = useState('');
+  const [range, setRange] = useState<StatsRange>(allTime);
+  const [compare, setCompare] = useState(false);
+  const [heatmapDay, setHeatmapDay] = useState<{ exercise: 'pushups' | 'walks'; localDate: string } | null>(null);
+  // Presets follow the user's calendar, so they're turned into dates on every
+  // render rather than when picked
+  const today = localDateIn(timeZone);
+  const activeRange = resolveRange(range, today);
 
   const { data: pushups = [], refetch } = useQuery<PushupEntry[]>({
     queryKey: ["/api/pushups"],
@@ -63,19 +167,140 @@ export default function Home() {
     queryKey: ["/api/walks"],
   });
 
+  const { data: pushupStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('pushups', view, '', activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: walkStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('walks', walkView, '', activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  // Charts can narrow to one tag; without one these share the queries above
+  const { data: pushupChartStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('pushups', view, pushupTag, activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: walkChartStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('walks', walkView, walkTag, activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  // Both exercises over the same buckets for the combined chart
+  const { data: combinedPushupStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('pushups', combinedView, '', activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  const { data: combinedWalkStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('walks', combinedView, '', activeRange)],
+    placeholderData: keepPreviousData,
+  });
+
+  // The same queries over the period before the range, when comparing
+  const comparison = compare ? previousRange(activeRange) : null;
+  const { data: previousPushupStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('pushups', view, '', comparison ?? allTime)],
+    enabled: comparison !== null,
+  });
+
+  const { data: previousWalkStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('walks', walkView, '', comparison ?? allTime)],
+    enabled: comparison !== null,
+  });
+
+  const { data: previousPushupChartStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('pushups', view, pushupTag, comparison ?? allTime)],
+    enabled: comparison !== null,
+  });
+
+  const { data: previousWalkChartStats } = useQuery<ExerciseStats>({
+    queryKey: [statsUrl('walks', walkView, walkTag, comparison ?? allTime)],
+    enabled: comparison !== null,
+  });
+
+  // A year of daily totals for the heatmap, bucketed by local date like the charts
+  const heatmapFrom = heatmapStart(weekStartsOn, today);
+  const { data: pushupHeatmap } = useQuery<ExerciseStats>({
+    queryKey: [`${statsUrl('pushups', 'daily')}&from=${heatmapFrom}`],
+  });
+
+  const { data: walkHeatmap } = useQuery<ExerciseStats>({
+    queryKey: [`${statsUrl('walks', 'daily')}&from=${heatmapFrom}`],
+  });
+
+  const { data: pushupTags = [], refetch: refreshPushupTags } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags?exercise=pushups"],
+  });
+
+  const { data: walkTags = [], refetch: refreshWalkTags } = useQuery<TagCount[]>({
+    queryKey: ["/api/tags?exercise=walks"],
+  });
+
+  const { data: goals = [], refetch: refreshGoals } = useQuery<Goal[]>({
+    queryKey: ["/api/goals"],
+  });
+
+  const { data: streaks, refetch: refreshStreaks } = useQuery<StreaksResponse>({
+    queryKey: ["/api/streaks"],
+    // "At risk" depends on the time of day, not just on new entries
+    refetchInterval: 15 * 60 * 1000,
+  });
+  const streakFor = (exercise: string) => streaks?.streaks.find(streak => streak.exercise === exercise);
+
+  const { data: achievements = [], refetch: refreshAchievements } = useQuery<Achievement[]>({
+    queryKey: ["/api/achievements"],
+  });
+
+  const { data: records = [], refetch: refreshRecords } = useQuery<PersonalRecord[]>({
+    queryKey: ["/api/records"],
+  });
+
+  // Day, then week, then month, so the rings read left to right
+  const goalsFor = (exercise: string) =>
+    goals
+      .filter(goal => goal.exercise === exercise)
+      .sort((a, b) => goalPeriodOrder.indexOf(a.period) - goalPeriodOrder.indexOf(b.period));
+  const pushupGoals = goalsFor('pushups');
+  const walkGoals = goalsFor('walks');
+
+  const refreshPushups = () => {
+    refetch();
+    refreshPushupTags();
+    invalidateStats('pushups');
+    refreshGoals();
+    refreshStreaks();
+    refreshAchievements();
+    refreshRecords();
+  };
+
+  const refreshWalks = () => {
+    refetchWalks();
+    refreshWalkTags();
+    invalidateStats('walks');
+    refreshGoals();
+    refreshStreaks();
+    refreshAchievements();
+    refreshRecords();
+  };
+
   const addEntry = useMutation({
-    mutationFn: async (data: PushupFormData) => {
+    mutationFn: async (data: { count: number; date: string; sets?: PushupSet[] } & EntryDetails) => {
       const res = await apiRequest("POST", "/api/pushups", data);
       return res.json();
     },
-    onSuccess: (_, variables) => {
-      refetch();
-      toast({ title: "Success!", description: "Pushup entry added" });
+    onSuccess: (data: EntryFeedback, variables) => {
+      refreshPushups();
+      toast(entryAddedToast(data, "Pushup entry added", distanceUnit));
 
       // Reset form immediately
       form.reset({
         count: '' as unknown as number,
-        date: format(new Date(), "yyyy-MM-dd"),
+        date: localDateIn(timeZone),
+        sets: [],
+        details: emptyEntryDetails,
       });
 
       // Sync to HealthKit in background (don't await)
@@ -101,18 +326,19 @@ export default function Home() {
   });
 
   const addWalkEntry = useMutation({
-    mutationFn: async (data: WalkFormData) => {
+    mutationFn: async (data: { meters: number; date: string } & EntryDetails) => {
       const res = await apiRequest("POST", "/api/walks", data);
       return res.json();
     },
-    onSuccess: (_, variables) => {
-      refetchWalks();
-      toast({ title: "Success!", description: "Walk entry added" });
+    onSuccess: (data: EntryFeedback, variables) => {
+      refreshWalks();
+      toast(entryAddedToast(data, "Walk entry added", distanceUnit));
 
       // Reset form immediately
       walkForm.reset({
-        miles: '' as unknown as number,
-        date: format(new Date(), "yyyy-MM-dd"),
+        distance: '' as unknown as number,
+        date: localDateIn(timeZone),
+        details: emptyEntryDetails,
       });
 
       // Sync to HealthKit in background (don't await)
@@ -120,8 +346,9 @@ export default function Home() {
         healthKitService.getAutoSyncEnabled().then(autoSyncEnabled => {
           if (autoSyncEnabled) {
             const entryDate = variables.date ? new Date(variables.date) : new Date();
-            healthKitService.writeWalkingDistance(variables.miles, entryDate)
-              .then(() => toast({ title: "Synced to Apple Health", description: `${variables.miles} miles logged` }))
+            const distance = Math.round(fromMeters(variables.meters) * 100) / 100;
+            healthKitService.writeWalkingDistance(variables.meters, entryDate)
+              .then(() => toast({ title: "Synced to Apple Health", description: `${distance} ${distanceLabel.plural} logged` }))
               .catch(() => {}); // Silently fail
           }
         }).catch(() => {});
@@ -140,144 +367,44 @@ export default function Home() {
   const form = useForm<PushupFormData>({
     defaultValues: {
       count: undefined as unknown as number,
-      date: format(new Date(), "yyyy-MM-dd"),
+      date: localDateIn(timeZone),
+      sets: [],
+      details: emptyEntryDetails,
     },
   });
+  const pushupSets = useFieldArray({ control: form.control, name: 'sets' });
+  const watchedSets = form.watch('sets');
+  const setsTotal = watchedSets.reduce((total, set) => total + (parseInt(set.reps, 10) || 0), 0);
 
   const walkForm = useForm<WalkFormData>({
     defaultValues: {
-      miles: undefined as unknown as number,
-      date: format(new Date(), "yyyy-MM-dd"),
+      distance: undefined as unknown as number,
+      date: localDateIn(timeZone),
+      details: emptyEntryDetails,
     },
   });
 
-  const [totalPushups, dailyPushupAverage] = useMemo(() => {
-    if (!pushups?.length) return [0, 0];
-
-    const total = pushups.reduce((acc, entry) => acc + entry.count, 0);
-
-    // Calculate days from first entry to today (including days with no activity)
-    const dates = pushups.map(entry => parseLocalDate(entry.date).getTime());
-    const firstDate = new Date(Math.min(...dates));
-    const today = new Date();
-    // Set both to start of day for accurate day count
-    firstDate.setHours(0, 0, 0, 0);
-    today.setHours(0, 0, 0, 0);
-    const daysSinceStart = Math.floor((today.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-    return [total, Math.round(total / daysSinceStart)];
-  }, [pushups]);
-
-  const [totalMiles, dailyMilesAverage] = useMemo(() => {
-    if (!walks?.length) return [0, 0];
-
-    const total = walks.reduce((acc, entry) => acc + entry.miles, 0);
-
-    // Calculate days from first entry to today (including days with no activity)
-    const dates = walks.map(entry => parseLocalDate(entry.date).getTime());
-    const firstDate = new Date(Math.min(...dates));
-    const today = new Date();
-    // Set both to start of day for accurate day count
-    firstDate.setHours(0, 0, 0, 0);
-    today.setHours(0, 0, 0, 0);
-    const daysSinceStart = Math.floor((today.getTime() - firstDate.getTime()) / (1000 * 60 * 60 * 24)) + 1;
-
-    return [total.toFixed(1), (total / daysSinceStart).toFixed(1)];
-  }, [walks]);
-
-  const chartData = useMemo(() => {
-    const sortedPushups = [...pushups].sort((a, b) => 
-      parseLocalDate(a.date).getTime() - parseLocalDate(b.date).getTime()
-    );
-
-    if (view === 'daily') {
-      return sortedPushups.reduce((acc, entry) => {
-        const dateKey = format(parseLocalDate(entry.date), "MM/dd");
-        const existingDay = acc.find(item => item.date === dateKey);
-
-        if (existingDay) {
-          existingDay.count += entry.count;
-        } else {
-          acc.push({
-            date: dateKey,
-            count: entry.count
-          });
-        }
-        return acc;
-      }, [] as Array<{date: string, count: number}>);
-    }
-
-    const aggregatedData = sortedPushups.reduce((acc, entry) => {
-      const date = parseLocalDate(entry.date);
-      let key: string;
-
-      if (view === 'weekly') {
-        const weekStart = startOfWeek(date);
-        key = format(weekStart, "MM/dd");
-      } else {
-        const monthStart = startOfMonth(date);
-        key = format(monthStart, "MMM yyyy");
-      }
-
-      if (!acc[key]) {
-        acc[key] = { total: 0 };
-      }
-      acc[key].total += entry.count;
-      return acc;
-    }, {} as Record<string, { total: number }>);
-
-    return Object.entries(aggregatedData).map(([date, data]) => ({
-      date,
-      count: data.total
-    }));
-  }, [pushups, view]);
-
-  const walkChartData = useMemo(() => {
-    const sortedWalks = [...walks].sort((a, b) => 
-      parseLocalDate(a.date).getTime() - parseLocalDate(b.date).getTime()
-    );
-
-    if (walkView === 'daily') {
-      return sortedWalks.reduce((acc, entry) => {
-        const dateKey = format(parseLocalDate(entry.date), "MM/dd");
-        const existingDay = acc.find(item => item.date === dateKey);
-
-        if (existingDay) {
-          existingDay.miles += entry.miles;
-        } else {
-          acc.push({
-            date: dateKey,
-            miles: entry.miles
-          });
-        }
-        return acc;
-      }, [] as Array<{date: string, miles: number}>);
-    }
-
-    const aggregatedData = sortedWalks.reduce((acc, entry) => {
-      const date = parseLocalDate(entry.date);
-      let key: string;
+  const pushupComparison = comparison && previousPushupStats;
+  const walkComparison = comparison && previousWalkStats;
 
-      if (walkView === 'weekly') {
-        const weekStart = startOfWeek(date);
-        key = format(weekStart, "MM/dd");
-      } else {
-        const monthStart = startOfMonth(date);
-        key = format(monthStart, "MMM yyyy");
-      }
-
-      if (!acc[key]) {
-        acc[key] = { total: 0 };
-      }
-      acc[key].total += entry.miles;
-      return acc;
-    }, {} as Record<string, { total: number }>);
+  const totalPushups = pushupStats?.total ?? 0;
+  const dailyPushupAverage = Math.round(pushupStats?.averages.perDay ?? 0);
+  const totalDistance = fromMeters(walkStats?.total ?? 0).toFixed(1);
+  const dailyDistanceAverage = fromMeters(walkStats?.averages.perDay ?? 0).toFixed(1);
 
-    return Object.entries(aggregatedData).map(([date, data]) => ({
-      date,
-      miles: data.total
-    }));
-  }, [walks, walkView]);
+  const walkChartSeries = useMemo(
+    () => scaleSeries(walkChartStats?.series, metersPerUnit),
+    [walkChartStats, metersPerUnit],
+  );
+  const previousWalkChartSeries = useMemo(
+    () => scaleSeries(previousWalkChartStats?.series, metersPerUnit),
+    [previousWalkChartStats, metersPerUnit],
+  );
+  const combinedWalkSeries = useMemo(
+    () => scaleSeries(combinedWalkStats?.series, metersPerUnit),
+    [combinedWalkStats, metersPerUnit],
+  );
+  const walkChartGoal = walkGoals.find(goal => goal.period === granularityFor[walkView])?.target;
 
   return (
     <div className="fixed inset-0 bg-gray-50/50 overflow-y-scroll" style={{ WebkitOverflowScrolling: 'touch' }}>
@@ -286,7 +413,22 @@ export default function Home() {
         <div className="absolute right-0 top-0 w-1/2 h-full">
           <div className="absolute inset-0 bg-white/10 backdrop-blur-xl rounded-l-full -skew-x-12 translate-x-20"></div>
         </div>
-        <div className="absolute top-4 right-4 z-10" style={{ paddingTop: 'env(safe-area-inset-top)' }}>
+        <div className="absolute top-4 right-4 z-10 flex gap-2" style={{ paddingTop: 'env(safe-area-inset-top)' }}>
+          <ImportDialog
+            onImported={() => {
+              refreshPushups();
+              refreshWalks();
+            }}
+            className="bg-white/20 border-white/30 text-white hover:bg-white/30"
+          />
+          <ExportMenu className="bg-white/20 border-white/30 text-white hover:bg-white/30" />
+          <TrashDialog
+            onRestored={() => {
+              refreshPushups();
+              refreshWalks();
+            }}
+            className="bg-white/20 border-white/30 text-white hover:bg-white/30"
+          />
           <Button
             variant="outline"
             size="sm"
@@ -344,6 +486,19 @@ export default function Home() {
           </div>
         </header>
 
+        <div className="flex flex-wrap items-center gap-4 mb-6">
+          <DateRangePicker value={range} onChange={setRange} />
+          <div className="flex items-center gap-2">
+            <Switch
+              id="compare-periods"
+              checked={compare && range.preset !== 'all'}
+              onCheckedChange={setCompare}
+              disabled={range.preset === 'all'}
+            />
+            <Label htmlFor="compare-periods" className="text-sm">Compare with previous period</Label>
+          </div>
+        </div>
+
         <div className="grid gap-6 md:grid-cols-2 lg:gap-8">
           <Card className="md:min-h-[350px]">
             <CardHeader>
@@ -356,55 +511,111 @@ export default function Home() {
               <Form {...form}>
                 <form 
                   onSubmit={form.handleSubmit(async (data) => {
-    const count = parseInt(data.count.toString(), 10);
-    if (!isNaN(count) && count > 0) {
+    // With sets, the count is their total
+    const sets = data.sets.map(set => ({
+      reps: parseInt(set.reps, 10),
+      restSeconds: set.restSeconds === '' ? null : parseInt(set.restSeconds, 10),
+    }));
+    const setsValid = sets.every(set =>
+      set.reps > 0 && (set.restSeconds === null || set.restSeconds >= 0)
+    );
+    const count = sets.length > 0
+      ? sets.reduce((total, set) => total + set.reps, 0)
+      : parseInt(data.count.toString(), 10);
+    if (setsValid && !isNaN(count) && count > 0) {
       const submission = {
         count,
-        date: data.date || format(new Date(), "yyyy-MM-dd")
+        date: data.date || localDateIn(timeZone),
+        ...(sets.length > 0 && { sets }),
+        ...toEntryDetails(data.details),
       };
       try {
         await addEntry.mutateAsync(submission);
-        await refetch();
-        toast({ title: "Success!", description: `Added ${count} pushups` });
-        form.reset({
-          count: undefined as unknown as number,
-          date: format(new Date(), "yyyy-MM-dd")
-        });
       } catch (error) {
         console.error("Submission error:", error);
-        toast({
-          title: "Error",
-          description: "Failed to add pushups",
-          variant: "destructive"
-        });
       }
     } else {
       toast({
         title: "Invalid input",
-        description: "Please enter a number greater than 0",
+        description: sets.length > 0
+          ? "Each set needs a number of pushups greater than 0"
+          : "Please enter a number greater than 0",
         variant: "destructive"
       });
     }
   })} 
                   className="space-y-6"
                 >
-                  <FormField
-                    control={form.control}
-                    name="count"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel className="text-base">Number of Pushups</FormLabel>
-                        <FormControl>
-                          <Input 
-                            type="number" 
-                            {...field} 
-                            onChange={e => field.onChange(parseInt(e.target.value))}
-                            className="text-lg h-12" 
+                  {pushupSets.fields.length > 0 ? (
+                    <div className="space-y-2">
+                      <div className="text-base font-medium">Sets</div>
+                      {pushupSets.fields.map((set, index) => (
+                        <div key={set.id} className="flex items-center gap-2">
+                          <span className="w-12 text-sm text-muted-foreground">#{index + 1}</span>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="Reps"
+                            aria-label={`Set ${index + 1} reps`}
+                            {...form.register(`sets.${index}.reps`)}
+                            className="text-lg h-12"
                           />
-                        </FormControl>
-                      </FormItem>
-                    )}
-                  />
+                          <Input
+                            type="number"
+                            min="0"
+                            placeholder="Rest (s)"
+                            aria-label={`Set ${index + 1} rest in seconds`}
+                            {...form.register(`sets.${index}.restSeconds`)}
+                            className="text-lg h-12"
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => pushupSets.remove(index)}
+                            aria-label={`Remove set ${index + 1}`}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ))}
+                      <div className="text-sm text-muted-foreground">
+                        Total: {setsTotal} pushups
+                      </div>
+                    </div>
+                  ) : (
+                    <FormField
+                      control={form.control}
+                      name="count"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-base">Number of Pushups</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              {...field} 
+                              onChange={e => field.onChange(parseInt(e.target.value))}
+                              className="text-lg h-12" 
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full h-12"
+                    onClick={() => {
+                      // The first set starts from whatever was typed as the total
+                      const typed = form.getValues('count');
+                      const reps = pushupSets.fields.length === 0 && typed > 0 ? String(typed) : '';
+                      pushupSets.append({ reps, restSeconds: '' });
+                    }}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Set
+                  </Button>
                   <FormField
                     control={form.control}
                     name="date"
@@ -421,6 +632,18 @@ export default function Home() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={form.control}
+                    name="details"
+                    render={({ field }) => (
+                      <EntryDetailsFields
+                        id="pushup-details"
+                        value={field.value}
+                        onChange={field.onChange}
+                        suggestions={pushupTags.map(({ tag }) => tag)}
+                      />
+                    )}
+                  />
                   <Button 
                     type="submit" 
                     className="w-full h-12 text-lg font-semibold"
@@ -438,6 +661,12 @@ export default function Home() {
               <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
                 <Trophy className="h-5 w-5" />
                 Pushup Stats
+                <GoalsEditor
+                  exercise="pushups"
+                  unit="pushups"
+                  goals={pushupGoals}
+                  onSaved={refreshGoals}
+                />
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -445,12 +674,35 @@ export default function Home() {
                 <div className="text-center p-6 bg-primary/10 rounded-lg">
                   <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{totalPushups}</div>
                   <div className="text-sm sm:text-base text-muted-foreground mt-2">Total Pushups</div>
+                  {pushupComparison && (
+                    <PercentChange current={totalPushups} previous={pushupComparison.total} />
+                  )}
                 </div>
                 <div className="text-center p-6 bg-primary/10 rounded-lg">
                   <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{dailyPushupAverage}</div>
                   <div className="text-sm sm:text-base text-muted-foreground mt-2">Daily Average</div>
+                  {pushupComparison && (
+                    <PercentChange
+                      current={pushupStats?.averages.perDay ?? 0}
+                      previous={pushupComparison.averages.perDay}
+                    />
+                  )}
                 </div>
               </div>
+              <StreakSummary streak={streakFor('pushups')} />
+              {pushupGoals.length > 0 && (
+                <div className="flex justify-around gap-4 mt-6">
+                  {pushupGoals.map(goal => (
+                    <ProgressRing
+                      key={goal.id}
+                      value={goal.progress}
+                      target={goal.target}
+                      label={goalPeriodLabels[goal.period]}
+                      color="#3b82f6"
+                    />
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
@@ -465,16 +717,13 @@ export default function Home() {
               <Form {...walkForm}>
                 <form 
                   onSubmit={walkForm.handleSubmit(async (data) => {
-                    const miles = parseFloat(data.miles.toString());
-                    if (!isNaN(miles) && miles > 0) {
+                    const distance = parseFloat(data.distance.toString());
+                    if (!isNaN(distance) && distance > 0) {
                       try {
                         await addWalkEntry.mutateAsync({
-                          miles,
-                          date: data.date || format(new Date(), "yyyy-MM-dd")
-                        });
-                        walkForm.reset({
-                          miles: undefined as unknown as number,
-                          date: format(new Date(), "yyyy-MM-dd")
+                          meters: toMeters(distance),
+                          date: data.date || localDateIn(timeZone),
+                          ...toEntryDetails(data.details),
                         });
                       } catch (error) {
                         console.error("Submission error:", error);
@@ -491,10 +740,10 @@ export default function Home() {
                 >
                   <FormField
                     control={walkForm.control}
-                    name="miles"
+                    name="distance"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel className="text-base">Miles Walked</FormLabel>
+                        <FormLabel className="text-base">{distanceLabel.title} Walked</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
@@ -523,6 +772,18 @@ export default function Home() {
                       </FormItem>
                     )}
                   />
+                  <FormField
+                    control={walkForm.control}
+                    name="details"
+                    render={({ field }) => (
+                      <EntryDetailsFields
+                        id="walk-details"
+                        value={field.value}
+                        onChange={field.onChange}
+                        suggestions={walkTags.map(({ tag }) => tag)}
+                      />
+                    )}
+                  />
                   <Button 
                     type="submit" 
                     className="w-full h-12 text-lg font-semibold"
@@ -530,6 +791,7 @@ export default function Home() {
                   >
                     {addWalkEntry.isPending ? "Adding..." : "Add Walk"}
                   </Button>
+                  <TrackImportButton onImported={refreshWalks} />
                 </form>
               </Form>
             </CardContent>
@@ -540,26 +802,76 @@ export default function Home() {
               <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
                 <Trophy className="h-5 w-5" />
                 Walk Stats
+                <GoalsEditor
+                  exercise="walks"
+                  unit={distanceLabel.plural}
+                  scale={metersPerUnit}
+                  goals={walkGoals}
+                  onSaved={refreshGoals}
+                />
               </CardTitle>
             </CardHeader>
             <CardContent>
               <div className="grid grid-cols-2 gap-4 sm:gap-6">
                 <div className="text-center p-6 bg-green-500/10 rounded-lg">
-                  <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{totalMiles}</div>
-                  <div className="text-sm sm:text-base text-muted-foreground mt-2">Total Miles</div>
+                  <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{totalDistance}</div>
+                  <div className="text-sm sm:text-base text-muted-foreground mt-2">Total {distanceLabel.title}</div>
+                  {walkComparison && (
+                    <PercentChange current={walkStats?.total ?? 0} previous={walkComparison.total} />
+                  )}
                 </div>
                 <div className="text-center p-6 bg-green-500/10 rounded-lg">
-                  <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{dailyMilesAverage}</div>
+                  <div className="text-2xl sm:text-3xl lg:text-4xl font-bold">{dailyDistanceAverage}</div>
                   <div className="text-sm sm:text-base text-muted-foreground mt-2">Daily Average</div>
+                  {walkComparison && (
+                    <PercentChange
+                      current={walkStats?.averages.perDay ?? 0}
+                      previous={walkComparison.averages.perDay}
+                    />
+                  )}
                 </div>
               </div>
+              <StreakSummary streak={streakFor('walks')} />
+              {walkGoals.length > 0 && (
+                <div className="flex justify-around gap-4 mt-6">
+                  {walkGoals.map(goal => (
+                    <ProgressRing
+                      key={goal.id}
+                      value={fromMeters(goal.progress)}
+                      target={fromMeters(goal.target)}
+                      label={goalPeriodLabels[goal.period]}
+                      color="#22c55e"
+                      format={n => n.toFixed(1)}
+                    />
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
 
+          <div className="md:col-span-2">
+            <ActivityHeatmap
+              series={{ pushups: pushupHeatmap?.series ?? [], walks: walkHeatmap?.series ?? [] }}
+              onSelectDay={(exercise, localDate) => setHeatmapDay({ exercise, localDate })}
+            />
+          </div>
+
+          <div className="md:col-span-2">
+            <RecordsCard records={records} unit={distanceUnit} />
+          </div>
+
+          <div className="md:col-span-2">
+            <BadgesGallery achievements={achievements} />
+          </div>
+
           <div className="md:col-span-2">
             <FormCheck />
           </div>
 
+          <div className="md:col-span-2">
+            <PreferencesSettings />
+          </div>
+
           {/* HealthKit Settings - only shows on iOS */}
           <div className="md:col-span-2">
             <HealthKitSettings />
@@ -598,25 +910,23 @@ export default function Home() {
                 >
                   Monthly
                 </Button>
+                <TagFilter
+                  tags={pushupTags.map(({ tag }) => tag)}
+                  value={pushupTag}
+                  onChange={setPushupTag}
+                  className="h-9 w-40 text-sm ml-auto"
+                />
               </div>
             </CardHeader>
             <CardContent>
-              <div className="h-[300px] sm:h-[350px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={chartData}>
-                    <XAxis dataKey="date" />
-                    <YAxis />
-                    <Tooltip />
-                    <Line
-                      type="monotone"
-                      dataKey="count"
-                      stroke="#3b82f6"
-                      strokeWidth={2}
-                      dot={{ fill: "#3b82f6" }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
-              </div>
+              <ProgressChart
+                buckets={pushupChartStats?.series ?? []}
+                previous={comparison ? previousPushupChartStats?.series : undefined}
+                granularity={granularityFor[view]}
+                label="Pushups"
+                color="#3b82f6"
+                goal={pushupGoals.find(goal => goal.period === granularityFor[view])?.target}
+              />
             </CardContent>
           </Card>
 
@@ -651,25 +961,54 @@ export default function Home() {
                 >
                   Monthly
                 </Button>
+                <TagFilter
+                  tags={walkTags.map(({ tag }) => tag)}
+                  value={walkTag}
+                  onChange={setWalkTag}
+                  className="h-9 w-40 text-sm ml-auto"
+                />
               </div>
             </CardHeader>
             <CardContent>
-              <div className="h-[300px] sm:h-[350px]">
-                <ResponsiveContainer width="100%" height="100%">
-                  <LineChart data={walkChartData}>
-                    <XAxis dataKey="date" />
-                    <YAxis />
-                    <Tooltip />
-                    <Line 
-                      type="monotone" 
-                      dataKey="miles" 
-                      stroke="#22c55e" 
-                      strokeWidth={2}
-                      dot={{ fill: "#22c55e" }}
-                    />
-                  </LineChart>
-                </ResponsiveContainer>
+              <ProgressChart
+                buckets={walkChartSeries}
+                previous={comparison ? previousWalkChartSeries : undefined}
+                granularity={granularityFor[walkView]}
+                label={distanceLabel.title}
+                color="#22c55e"
+                goal={walkChartGoal === undefined ? undefined : fromMeters(walkChartGoal)}
+                formatValue={value => value.toFixed(1)}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="md:col-span-2">
+            <CardHeader className="space-y-4">
+              <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+                <Activity className="h-5 w-5" />
+                Pushups vs Walks
+              </CardTitle>
+              <div className="flex gap-2 flex-wrap">
+                {(['daily', 'weekly', 'monthly'] as const).map(option => (
+                  <Button
+                    key={option}
+                    variant={combinedView === option ? 'default' : 'outline'}
+                    onClick={() => setCombinedView(option)}
+                    size="sm"
+                    className="text-sm capitalize"
+                  >
+                    {option}
+                  </Button>
+                ))}
               </div>
+            </CardHeader>
+            <CardContent>
+              <CombinedChart
+                pushups={combinedPushupStats?.series ?? []}
+                walks={combinedWalkSeries}
+                distanceLabel={distanceLabel.title}
+                granularity={granularityFor[combinedView]}
+              />
             </CardContent>
           </Card>
         </div>
@@ -681,16 +1020,56 @@ export default function Home() {
             icon={<List className="h-5 w-5" />}
             entries={pushups}
             type="pushups"
-            onDelete={() => refetch()}
+            onDelete={refreshPushups}
+            onUpdate={refreshPushups}
           />
           <EntryList
             title="Walk History"
             icon={<List className="h-5 w-5" />}
             entries={walks}
             type="walks"
-            onDelete={() => refetchWalks()}
+            onDelete={refreshWalks}
+            onUpdate={refreshWalks}
           />
         </div>
+
+        <Dialog
+          open={heatmapDay !== null}
+          onOpenChange={(open) => {
+            if (!open) setHeatmapDay(null);
+          }}
+        >
+          <DialogContent className="max-w-lg p-0 overflow-hidden">
+            <DialogHeader className="px-6 pt-6">
+              <DialogTitle>
+                {heatmapDay && format(parseISO(heatmapDay.localDate), 'EEEE, MMM d, yyyy')}
+              </DialogTitle>
+            </DialogHeader>
+            {heatmapDay?.exercise === 'walks' ? (
+              <EntryList
+                title="Walks"
+                icon={<Footprints className="h-5 w-5" />}
+                entries={walks.filter(walk => walk.localDate === heatmapDay.localDate)}
+                type="walks"
+                onDelete={refreshWalks}
+                onUpdate={refreshWalks}
+              />
+            ) : (
+              <EntryList
+                title="Pushups"
+                icon={<Dumbbell className="h-5 w-5" />}
+                entries={pushups.filter(pushup => pushup.localDate === heatmapDay?.localDate)}
+                type="pushups"
+                onDelete={refreshPushups}
+                onUpdate={refreshPushups}
+              />
+            )}
+            {heatmapDay && !(heatmapDay.exercise === 'walks' ? walks : pushups)
+              .some(entry => entry.localDate === heatmapDay.localDate) && (
+              <p className="px-6 pb-6 text-sm text-muted-foreground">No entries on this day.</p>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -1,5 +1,6 @@
 import { Capacitor } from '@capacitor/core';
 import { Preferences } from '@capacitor/preferences';
+import { METERS_PER_UNIT } from '@db/units';
 
 // Import the HealthKit plugin
 // We use dynamic import to avoid issues on web
@@ -25,7 +26,7 @@ export interface HealthKitService {
   isAvailable(): Promise<boolean>;
   requestAuthorization(): Promise<boolean>;
   writePushupWorkout(count: number, date: Date): Promise<void>;
-  writeWalkingDistance(miles: number, date: Date): Promise<void>;
+  writeWalkingDistance(meters: number, date: Date): Promise<void>;
   getAutoSyncEnabled(): Promise<boolean>;
   setAutoSyncEnabled(enabled: boolean): Promise<void>;
 }
@@ -91,18 +92,15 @@ export const healthKitService: HealthKitService = {
     }
   },
 
-  async writeWalkingDistance(miles: number, date: Date): Promise<void> {
+  async writeWalkingDistance(meters: number, date: Date): Promise<void> {
     if (Capacitor.getPlatform() !== 'ios') return;
 
     try {
       const Health = await getHealthPlugin();
       if (!Health) return;
 
-      // Convert miles to meters (HealthKit uses meters)
-      const meters = miles * 1609.34;
-
       // Estimate duration: ~20 minutes per mile walking
-      const durationMs = miles * 20 * 60 * 1000;
+      const durationMs = (meters / METERS_PER_UNIT.mi) * 20 * 60 * 1000;
 
       await Health.saveSample({
         dataType: 'distance',
@@ -1,36 +1,226 @@
-import { pgTable, text, serial, integer, timestamp, real } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, real, date, index, jsonb, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
+import { sql } from "drizzle-orm";
+import { distanceUnits } from "./units";
+
+export type { DistanceUnit } from "./units";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").unique().notNull(),
   password: text("password").notNull(),
+  // IANA timezone used to decide which calendar day "today" is
+  timezone: text("timezone").notNull().default("UTC"),
+  // Streak rules: missed days per week that don't break a streak, and extra
+  // missed days per month that can be covered once the rest days run out
+  restDaysPerWeek: integer("rest_days_per_week").notNull().default(0),
+  streakFreezesPerMonth: integer("streak_freezes_per_month").notNull().default(0),
+  // First day of the week for weekly buckets, goals and rest days (0 = Sunday)
+  weekStartsOn: integer("week_starts_on").notNull().default(0),
+  // Unit distances are shown and entered in; they are always stored in meters
+  distanceUnit: text("distance_unit", { enum: distanceUnits }).notNull().default("mi"),
 });
 
-export const pushups = pgTable("pushups", {
-  id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
-  count: integer("count").notNull(),
-  date: timestamp("date").notNull().defaultNow(),
-});
+export const metricKinds = ["reps", "distance", "duration"] as const;
+export type MetricKind = (typeof metricKinds)[number];
 
-export const walks = pgTable("walks", {
+export const exercises = pgTable("exercises", {
   id: serial("id").primaryKey(),
-  userId: integer("user_id").notNull(),
-  miles: real("miles").notNull(),
-  date: timestamp("date").notNull().defaultNow(),
+  slug: text("slug").unique().notNull(),
+  name: text("name").notNull(),
+  metric: text("metric", { enum: metricKinds }).notNull(),
+  // Always "meters" for distance exercises
+  unit: text("unit").notNull(),
 });
 
+export const activityEntries = pgTable(
+  "activity_entries",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+    value: real("value").notNull(),
+    // The instant the activity happened
+    date: timestamp("date", { withTimezone: true }).notNull().defaultNow(),
+    // The calendar day it counts toward, as seen where it was logged
+    localDate: date("local_date").notNull(),
+    timezone: text("timezone").notNull().default("UTC"),
+    // Filled in for entries imported from GPX/TCX tracks
+    movingSeconds: integer("moving_seconds"),
+    // Moving time per kilometer, kept in step with the distance
+    paceSecondsPerKm: real("pace_seconds_per_km"),
+    elevationGainMeters: real("elevation_gain_meters"),
+    // Simplified route as [lat, lon] pairs
+    track: jsonb("track").$type<[number, number][]>(),
+    notes: text("notes"),
+    // Free-form labels such as "diamond" or "hills", stored lowercased
+    tags: text("tags").array().notNull().default(sql`'{}'::text[]`),
+    // Rate of perceived exertion, 1-10
+    rpe: integer("rpe"),
+    // Set when the entry is moved to the trash; purged 30 days later
+    deletedAt: timestamp("deleted_at", { withTimezone: true }),
+  },
+  (table) => [
+    index("activity_entries_user_local_date_idx").on(table.userId, table.localDate),
+    index("activity_entries_tags_idx").using("gin", table.tags),
+  ],
+);
+
+// Optional per-set breakdown of a rep-based entry. When an entry has sets,
+// its value is their total.
+export const entrySets = pgTable(
+  "entry_sets",
+  {
+    id: serial("id").primaryKey(),
+    entryId: integer("entry_id")
+      .notNull()
+      .references(() => activityEntries.id, { onDelete: "cascade" }),
+    position: integer("position").notNull(),
+    reps: integer("reps").notNull(),
+    // Rest taken after the set, if recorded
+    restSeconds: integer("rest_seconds"),
+  },
+  (table) => [index("entry_sets_entry_idx").on(table.entryId)],
+);
+
+export const goalPeriods = ["day", "week", "month"] as const;
+export type GoalPeriod = (typeof goalPeriods)[number];
+
+export const goals = pgTable(
+  "goals",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+    period: text("period", { enum: goalPeriods }).notNull(),
+    target: real("target").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [unique("goals_user_exercise_period_unique").on(table.userId, table.exerciseId, table.period)],
+);
+
+export const achievements = pgTable(
+  "achievements",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    // Key of the rule in server/achievements.ts
+    badge: text("badge").notNull(),
+    earnedAt: timestamp("earned_at", { withTimezone: true }).notNull().defaultNow(),
+    // The entry whose logging unlocked it
+    entryId: integer("entry_id").references(() => activityEntries.id, { onDelete: "set null" }),
+  },
+  (table) => [unique("achievements_user_badge_unique").on(table.userId, table.badge)],
+);
+
+export const formScoreCategories = ["elbowAngle", "bodyAlignment", "depth", "tempo", "core"] as const;
+export type FormScoreCategory = (typeof formScoreCategories)[number];
+
+export const issueSeverities = ["low", "medium", "high"] as const;
+export type IssueSeverity = (typeof issueSeverities)[number];
+
+// Structured form-check result; scores run 0-100
+export type FormScorecard = {
+  overallScore: number;
+  summary: string;
+  categories: Record<FormScoreCategory, { score: number; notes: string }>;
+  issues: {
+    category: FormScoreCategory;
+    severity: IssueSeverity;
+    // Where in the video the issue can be seen
+    timestampSeconds: number;
+    description: string;
+    fix: string;
+  }[];
+};
+
+// Backends in server/form-analysis.ts
+export const formAnalysisProviders = ["gemini", "openai", "mock"] as const;
+export type FormAnalysisProviderName = (typeof formAnalysisProviders)[number];
+
+// "text" marks a reply that was neither a scorecard nor meant as markdown,
+// kept verbatim
+export const analysisFormats = ["markdown", "text"] as const;
+export type AnalysisFormat = (typeof analysisFormats)[number];
+
+// A saved form-check analysis of an uploaded video
+export const formChecks = pgTable(
+  "form_checks",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    // The model's feedback, as markdown or raw text per analysisFormat
+    analysis: text("analysis").notNull(),
+    analysisFormat: text("analysis_format", { enum: analysisFormats }).notNull().default("markdown"),
+    // Scores and timed issues, when the model's reply matched the schema;
+    // otherwise only the raw reply is kept
+    scorecard: jsonb("scorecard").$type<FormScorecard>(),
+    // Which backend and model produced the analysis
+    provider: text("provider", { enum: formAnalysisProviders }).notNull(),
+    model: text("model").notNull(),
+    // Length of the uploaded video
+    durationSeconds: real("duration_seconds"),
+    // Frame grabbed while compressing, relative to the server's working directory
+    thumbnailPath: text("thumbnail_path"),
+  },
+  (table) => [index("form_checks_user_created_idx").on(table.userId, table.createdAt)],
+);
+
+export const formCheckStages = ["queued", "compressing", "analyzing", "done", "failed"] as const;
+export type FormCheckStage = (typeof formCheckStages)[number];
+
+// An uploaded video working through the form-check stages
+export const formCheckJobs = pgTable(
+  "form_check_jobs",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").notNull(),
+    exerciseId: integer("exercise_id").notNull().references(() => exercises.id),
+    stage: text("stage", { enum: formCheckStages }).notNull().default("queued"),
+    // The upload waiting to be processed; cleared once it is removed
+    videoPath: text("video_path"),
+    mimeType: text("mime_type").notNull(),
+    error: text("error"),
+    // The saved analysis, once done
+    formCheckId: integer("form_check_id").references(() => formChecks.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [index("form_check_jobs_user_idx").on(table.userId)],
+);
+
 export const insertUserSchema = createInsertSchema(users);
 export const selectUserSchema = createSelectSchema(users);
-export const insertPushupSchema = createInsertSchema(pushups);
-export const selectPushupSchema = createSelectSchema(pushups);
-export const insertWalkSchema = createInsertSchema(walks);
-export const selectWalkSchema = createSelectSchema(walks);
+export const insertExerciseSchema = createInsertSchema(exercises);
+export const selectExerciseSchema = createSelectSchema(exercises);
+export const insertActivityEntrySchema = createInsertSchema(activityEntries);
+export const selectActivityEntrySchema = createSelectSchema(activityEntries);
+export const insertEntrySetSchema = createInsertSchema(entrySets);
+export const selectEntrySetSchema = createSelectSchema(entrySets);
+export const insertGoalSchema = createInsertSchema(goals);
+export const selectGoalSchema = createSelectSchema(goals);
+export const insertAchievementSchema = createInsertSchema(achievements);
+export const selectAchievementSchema = createSelectSchema(achievements);
+export const insertFormCheckSchema = createInsertSchema(formChecks);
+export const selectFormCheckSchema = createSelectSchema(formChecks);
+export const insertFormCheckJobSchema = createInsertSchema(formCheckJobs);
+export const selectFormCheckJobSchema = createSelectSchema(formCheckJobs);
 
 export type InsertUser = typeof users.$inferInsert;
 export type SelectUser = typeof users.$inferSelect;
-export type InsertPushup = typeof pushups.$inferInsert;
-export type SelectPushup = typeof pushups.$inferSelect;
-export type InsertWalk = typeof walks.$inferInsert;
-export type SelectWalk = typeof walks.$inferSelect;
\ No newline at end of file
+export type InsertExercise = typeof exercises.$inferInsert;
+export type SelectExercise = typeof exercises.$inferSelect;
+export type InsertActivityEntry = typeof activityEntries.$inferInsert;
+export type SelectActivityEntry = typeof activityEntries.$inferSelect;
+export type InsertEntrySet = typeof entrySets.$inferInsert;
+export type SelectEntrySet = typeof entrySets.$inferSelect;
+export type InsertGoal = typeof goals.$inferInsert;
+export type SelectGoal = typeof goals.$inferSelect;
+export type InsertAchievement = typeof achievements.$inferInsert;
+export type SelectAchievement = typeof achievements.$inferSelect;
+export type InsertFormCheck = typeof formChecks.$inferInsert;
+export type SelectFormCheck = typeof formChecks.$inferSelect;
+export type InsertFormCheckJob = typeof formCheckJobs.$inferInsert;
+export type SelectFormCheckJob = typeof formCheckJobs.$inferSelect;
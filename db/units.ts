@@ -0,0 +1,10 @@
+// Distance units and their size in meters, which is how distances are
+// stored. Kept free of dependencies so the client can import it without
+// pulling in the table definitions.
+export const distanceUnits = ["mi", "km"] as const;
+export type DistanceUnit = (typeof distanceUnits)[number];
+
+export const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  mi: 1609.344,
+  km: 1000,
+};
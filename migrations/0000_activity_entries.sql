@@ -0,0 +1,51 @@
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "exercises" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name" text NOT NULL,
+	"metric" text NOT NULL,
+	"unit" text NOT NULL,
+	CONSTRAINT "exercises_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "activity_entries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"exercise_id" integer NOT NULL REFERENCES "exercises"("id"),
+	"value" real NOT NULL,
+	"date" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "exercises" ("slug", "name", "metric", "unit") VALUES
+	('pushups', 'Pushups', 'reps', 'pushups'),
+	('walks', 'Walks', 'distance', 'miles'),
+	('squats', 'Squats', 'reps', 'squats'),
+	('planks', 'Planks', 'duration', 'seconds'),
+	('pull-ups', 'Pull-ups', 'reps', 'pull-ups'),
+	('runs', 'Runs', 'distance', 'miles')
+ON CONFLICT ("slug") DO NOTHING;
+--> statement-breakpoint
+-- Move the old per-exercise tables into activity_entries, then drop them.
+DO $$
+BEGIN
+	IF to_regclass('public.pushups') IS NOT NULL THEN
+		INSERT INTO "activity_entries" ("user_id", "exercise_id", "value", "date")
+		SELECT p."user_id", e."id", p."count", p."date"
+		FROM "pushups" p, "exercises" e
+		WHERE e."slug" = 'pushups';
+		DROP TABLE "pushups";
+	END IF;
+	IF to_regclass('public.walks') IS NOT NULL THEN
+		INSERT INTO "activity_entries" ("user_id", "exercise_id", "value", "date")
+		SELECT w."user_id", e."id", w."miles", w."date"
+		FROM "walks" w, "exercises" e
+		WHERE e."slug" = 'walks';
+		DROP TABLE "walks";
+	END IF;
+END $$;
@@ -0,0 +1,15 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "timezone" text DEFAULT 'UTC' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ALTER COLUMN "date" SET DATA TYPE timestamp with time zone USING "date" AT TIME ZONE 'UTC';
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "local_date" date;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "timezone" text DEFAULT 'UTC' NOT NULL;
+--> statement-breakpoint
+-- Older entries were saved as UTC midnight of the day picked in the form,
+-- so their UTC calendar date is the day they were logged for.
+UPDATE "activity_entries" SET "local_date" = ("date" AT TIME ZONE 'UTC')::date WHERE "local_date" IS NULL;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ALTER COLUMN "local_date" SET NOT NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "activity_entries_user_local_date_idx" ON "activity_entries" USING btree ("user_id", "local_date");
@@ -0,0 +1,7 @@
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "moving_seconds" integer;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "elevation_gain_meters" real;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "pace_seconds_per_km" real;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "track" jsonb;
@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "goals" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"exercise_id" integer NOT NULL REFERENCES "exercises"("id"),
+	"period" text NOT NULL,
+	"target" real NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "goals_user_exercise_period_unique" UNIQUE("user_id", "exercise_id", "period")
+);
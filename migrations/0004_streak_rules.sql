@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "rest_days_per_week" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "streak_freezes_per_month" integer DEFAULT 0 NOT NULL;
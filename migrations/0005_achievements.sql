@@ -0,0 +1,8 @@
+CREATE TABLE IF NOT EXISTS "achievements" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"badge" text NOT NULL,
+	"earned_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"entry_id" integer REFERENCES "activity_entries"("id") ON DELETE SET NULL,
+	CONSTRAINT "achievements_user_badge_unique" UNIQUE("user_id", "badge")
+);
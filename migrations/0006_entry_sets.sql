@@ -0,0 +1,9 @@
+CREATE TABLE IF NOT EXISTS "entry_sets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"entry_id" integer NOT NULL REFERENCES "activity_entries"("id") ON DELETE CASCADE,
+	"position" integer NOT NULL,
+	"reps" integer NOT NULL,
+	"rest_seconds" integer
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "entry_sets_entry_idx" ON "entry_sets" USING btree ("entry_id");
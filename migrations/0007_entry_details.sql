@@ -0,0 +1,7 @@
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "notes" text;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "tags" text[] DEFAULT '{}'::text[] NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "rpe" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "activity_entries_tags_idx" ON "activity_entries" USING gin ("tags");
@@ -0,0 +1 @@
+ALTER TABLE "activity_entries" ADD COLUMN IF NOT EXISTS "deleted_at" timestamp with time zone;
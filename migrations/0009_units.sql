@@ -0,0 +1,18 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "week_starts_on" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "distance_unit" text DEFAULT 'mi' NOT NULL;
+--> statement-breakpoint
+-- Distances are stored in meters from here on. Only exercises still recorded
+-- in miles or km are converted, and their unit is switched last, so a rerun
+-- leaves converted values alone.
+UPDATE "activity_entries" a
+SET "value" = a."value" * CASE e."unit" WHEN 'miles' THEN 1609.344 ELSE 1000 END
+FROM "exercises" e
+WHERE a."exercise_id" = e."id" AND e."metric" = 'distance' AND e."unit" IN ('miles', 'km');
+--> statement-breakpoint
+UPDATE "goals" g
+SET "target" = g."target" * CASE e."unit" WHEN 'miles' THEN 1609.344 ELSE 1000 END
+FROM "exercises" e
+WHERE g."exercise_id" = e."id" AND e."metric" = 'distance' AND e."unit" IN ('miles', 'km');
+--> statement-breakpoint
+UPDATE "exercises" SET "unit" = 'meters' WHERE "metric" = 'distance' AND "unit" IN ('miles', 'km');
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "form_checks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"exercise_id" integer NOT NULL REFERENCES "exercises"("id"),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"analysis" text NOT NULL,
+	"model" text NOT NULL,
+	"duration_seconds" real,
+	"thumbnail_path" text
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "form_checks_user_created_idx" ON "form_checks" USING btree ("user_id", "created_at");
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "form_check_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"exercise_id" integer NOT NULL REFERENCES "exercises"("id"),
+	"stage" text DEFAULT 'queued' NOT NULL,
+	"video_path" text,
+	"mime_type" text NOT NULL,
+	"error" text,
+	"form_check_id" integer REFERENCES "form_checks"("id") ON DELETE SET NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "form_check_jobs_user_idx" ON "form_check_jobs" USING btree ("user_id");
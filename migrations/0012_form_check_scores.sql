@@ -0,0 +1 @@
+ALTER TABLE "form_checks" ADD COLUMN IF NOT EXISTS "scorecard" jsonb;
@@ -0,0 +1,2 @@
+-- Analyses saved so far are all markdown
+ALTER TABLE "form_checks" ADD COLUMN IF NOT EXISTS "analysis_format" text DEFAULT 'markdown' NOT NULL;
@@ -0,0 +1,4 @@
+-- Every analysis before providers were configurable came from Gemini
+ALTER TABLE "form_checks" ADD COLUMN IF NOT EXISTS "provider" text DEFAULT 'gemini' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "form_checks" ALTER COLUMN "provider" DROP DEFAULT;
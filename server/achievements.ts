@@ -0,0 +1,220 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { achievements, activityEntries, type SelectExercise, type SelectUser } from "@db/schema";
+import { eq, and, count, desc, sql } from "drizzle-orm";
+import { localDateIn } from "./timezone";
+import { computeStreak, loadActiveDays, streakRulesFor } from "./streaks";
+import { notDeleted } from "./activities";
+import { METERS_PER_MILE } from "./units";
+
+// What a rule's threshold is compared against, all per exercise:
+// entries logged, lifetime total, best single local day and longest streak.
+type Measure = "entries" | "lifetime" | "bestDay" | "streak";
+
+// Walk distances are stored in meters. Thresholds are rounded down so float
+// error in the stored values can't hold a badge back.
+const miles = (distance: number) => Math.floor(distance * METERS_PER_MILE);
+
+type AchievementRule = {
+  badge: string;
+  exercise: string;
+  measure: Measure;
+  threshold: number;
+  title: string;
+  description: string;
+};
+
+export const achievementRules: AchievementRule[] = [
+  {
+    badge: "pushups-first",
+    exercise: "pushups",
+    measure: "entries",
+    threshold: 1,
+    title: "First Rep",
+    description: "Log your first pushups",
+  },
+  {
+    badge: "pushups-day-100",
+    exercise: "pushups",
+    measure: "bestDay",
+    threshold: 100,
+    title: "Century Day",
+    description: "100 pushups in a day",
+  },
+  {
+    badge: "pushups-day-200",
+    exercise: "pushups",
+    measure: "bestDay",
+    threshold: 200,
+    title: "Double Century",
+    description: "200 pushups in a day",
+  },
+  {
+    badge: "pushups-lifetime-1000",
+    exercise: "pushups",
+    measure: "lifetime",
+    threshold: 1000,
+    title: "Thousand Club",
+    description: "1,000 lifetime pushups",
+  },
+  {
+    badge: "pushups-lifetime-10000",
+    exercise: "pushups",
+    measure: "lifetime",
+    threshold: 10000,
+    title: "Ten Thousand Strong",
+    description: "10,000 lifetime pushups",
+  },
+  {
+    badge: "pushups-streak-7",
+    exercise: "pushups",
+    measure: "streak",
+    threshold: 7,
+    title: "Week Warrior",
+    description: "A 7-day pushup streak",
+  },
+  {
+    badge: "pushups-streak-30",
+    exercise: "pushups",
+    measure: "streak",
+    threshold: 30,
+    title: "Iron Habit",
+    description: "A 30-day pushup streak",
+  },
+  {
+    badge: "walks-first",
+    exercise: "walks",
+    measure: "entries",
+    threshold: 1,
+    title: "First Steps",
+    description: "Log your first walk",
+  },
+  {
+    badge: "walks-day-10",
+    exercise: "walks",
+    measure: "bestDay",
+    threshold: miles(10),
+    title: "Ten Miler",
+    description: "10 miles walked in a day",
+  },
+  {
+    badge: "walks-lifetime-100",
+    exercise: "walks",
+    measure: "lifetime",
+    threshold: miles(100),
+    title: "Century Walker",
+    description: "100 miles walked",
+  },
+  {
+    badge: "walks-lifetime-500",
+    exercise: "walks",
+    measure: "lifetime",
+    threshold: miles(500),
+    title: "Long Haul",
+    description: "500 miles walked",
+  },
+  {
+    badge: "walks-streak-7",
+    exercise: "walks",
+    measure: "streak",
+    threshold: 7,
+    title: "Daily Stroller",
+    description: "A 7-day walking streak",
+  },
+  {
+    badge: "walks-streak-30",
+    exercise: "walks",
+    measure: "streak",
+    threshold: 30,
+    title: "Trailblazer",
+    description: "A 30-day walking streak",
+  },
+];
+
+async function measureProgress(user: SelectUser, exerciseId: number): Promise<Record<Measure, number>> {
+  const owned = and(eq(activityEntries.userId, user.id), eq(activityEntries.exerciseId, exerciseId), notDeleted);
+
+  const [totals] = await db
+    .select({
+      entries: count(),
+      lifetime: sql<number>`coalesce(sum(${activityEntries.value}), 0)`.mapWith(Number),
+    })
+    .from(activityEntries)
+    .where(owned);
+
+  const dayTotal = sql<number>`sum(${activityEntries.value})`.mapWith(Number);
+  const [bestDay] = await db
+    .select({ total: dayTotal })
+    .from(activityEntries)
+    .where(owned)
+    .groupBy(activityEntries.localDate)
+    .orderBy(desc(dayTotal))
+    .limit(1);
+
+  const today = localDateIn(user.timezone);
+  const activeDays = await loadActiveDays(user.id, today, exerciseId);
+  const streak = computeStreak(activeDays.get(exerciseId) ?? new Set(), today, streakRulesFor(user));
+
+  return { ...totals, bestDay: bestDay?.total ?? 0, streak: streak.longest };
+}
+
+// Awards every badge for the exercise that the user now qualifies for and
+// returns the ones that are new. Runs after an entry is saved, so a failure
+// here is logged rather than failing the request.
+export async function evaluateAchievements(user: SelectUser, exercise: SelectExercise, entryId: number) {
+  try {
+    const earned = await db
+      .select({ badge: achievements.badge })
+      .from(achievements)
+      .where(eq(achievements.userId, user.id));
+    const earnedBadges = new Set(earned.map((row) => row.badge));
+
+    const candidates = achievementRules.filter(
+      (rule) => rule.exercise === exercise.slug && !earnedBadges.has(rule.badge),
+    );
+    if (candidates.length === 0) return [];
+
+    const progress = await measureProgress(user, exercise.id);
+    const unlocked = candidates.filter((rule) => progress[rule.measure] >= rule.threshold);
+    if (unlocked.length === 0) return [];
+
+    const rows = await db
+      .insert(achievements)
+      .values(unlocked.map((rule) => ({ userId: user.id, badge: rule.badge, entryId })))
+      .onConflictDoNothing()
+      .returning();
+
+    return rows.map((row) => ({
+      ...achievementRules.find((rule) => rule.badge === row.badge)!,
+      earnedAt: row.earnedAt,
+    }));
+  } catch (error) {
+    console.error("Error evaluating achievements:", error);
+    return [];
+  }
+}
+
+export function setupAchievements(app: Express) {
+  // Every badge, earned or not, so the gallery can show what's left to unlock
+  app.get("/api/achievements", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const earned = await db
+        .select()
+        .from(achievements)
+        .where(eq(achievements.userId, req.user!.id));
+      const earnedByBadge = new Map(earned.map((row) => [row.badge, row]));
+
+      res.json(
+        achievementRules.map((rule) => ({
+          ...rule,
+          earnedAt: earnedByBadge.get(rule.badge)?.earnedAt ?? null,
+          entryId: earnedByBadge.get(rule.badge)?.entryId ?? null,
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching achievements:", error);
+      res.status(500).json({ message: "Failed to fetch achievements" });
+    }
+  });
+}
@@ -0,0 +1,645 @@
+import type { Express } from "express";
+import { db } from "@db";
+import {
+  exercises,
+  activityEntries,
+  entrySets,
+  metricKinds,
+  type MetricKind,
+  type InsertActivityEntry,
+  type InsertEntrySet,
+  type SelectActivityEntry,
+  type SelectExercise,
+} from "@db/schema";
+import { eq, and, inArray, arrayContains, isNull, asc, desc, count, sql, getTableColumns } from "drizzle-orm";
+import { isoDate, resolveEntryDate } from "./timezone";
+import { evaluateAchievements } from "./achievements";
+import { detectNewRecords } from "./records";
+import { METERS_PER_MILE } from "./units";
+
+// The original per-exercise endpoints. Shipped iOS builds still call these,
+// so they are served from activity_entries with `value` renamed to the old field.
+// Walks are stored in meters but the old field stays in miles; newer clients
+// send and read `meters` instead.
+const legacyResources = [
+  { path: "pushups", exercise: "pushups", field: "count", label: "pushup" },
+  { path: "walks", exercise: "walks", field: "miles", label: "walk", storedField: "meters", scale: METERS_PER_MILE },
+] as const;
+
+type LegacyResource = (typeof legacyResources)[number];
+
+export async function findExercise(slug: string) {
+  const [exercise] = await db.select().from(exercises).where(eq(exercises.slug, slug)).limit(1);
+  return exercise;
+}
+
+function toSlug(name: string) {
+  return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+// Track geometry is only needed when drawing a route, so lists leave it out.
+// Trashed entries never reach a list, so neither does deleted_at.
+const { track: _track, deletedAt: _deletedAt, ...entryColumns } = getTableColumns(activityEntries);
+export const listColumns = entryColumns;
+
+// Entries in the trash are excluded everywhere except the trash itself
+export const notDeleted = isNull(activityEntries.deletedAt);
+
+function toLegacyEntry(entry: Omit<SelectActivityEntry, "track" | "deletedAt">, resource: LegacyResource) {
+  const { exerciseId, value, ...rest } = entry;
+  if (!("storedField" in resource)) return { ...rest, [resource.field]: value };
+  return { ...rest, [resource.field]: value / resource.scale, [resource.storedField]: value };
+}
+
+// Puts the stored value under the old field name, converting from the old
+// unit unless the body sent the stored one.
+function legacyBody(body: Record<string, unknown>, resource: LegacyResource) {
+  if (!("storedField" in resource)) return body;
+  const stored = body[resource.storedField];
+  if (stored !== undefined) return { ...body, [resource.field]: stored };
+  const legacy = body[resource.field];
+  // Anything that isn't a number is left for the usual validation to reject
+  if (legacy === undefined || legacy === null || legacy === "" || isNaN(Number(legacy))) return body;
+  return { ...body, [resource.field]: Number(legacy) * resource.scale };
+}
+
+const MAX_SETS = 50;
+
+type SetInput = Pick<InsertEntrySet, "reps" | "restSeconds">;
+
+// Validates an optional sets breakdown. Undefined leaves the sets alone and
+// an empty list clears them.
+function parseSets(sets: unknown): { sets?: SetInput[]; error?: string } {
+  if (sets === undefined) return {};
+  if (!Array.isArray(sets) || sets.length > MAX_SETS) {
+    return { error: `Sets must be a list of at most ${MAX_SETS} sets` };
+  }
+
+  const parsed: SetInput[] = [];
+  for (const set of sets) {
+    const reps = Number(set?.reps);
+    if (!Number.isInteger(reps) || reps <= 0) {
+      return { error: "Each set needs a whole number of reps greater than 0" };
+    }
+    const rest = set?.restSeconds;
+    const restSeconds = rest === undefined || rest === null || rest === "" ? null : Number(rest);
+    if (restSeconds !== null && (!Number.isInteger(restSeconds) || restSeconds < 0)) {
+      return { error: "Rest must be a whole number of seconds" };
+    }
+    parsed.push({ reps, restSeconds });
+  }
+  return { sets: parsed };
+}
+
+function totalReps(sets: SetInput[]) {
+  return sets.reduce((total, set) => total + set.reps, 0);
+}
+
+// Only rep-based exercises can be broken into sets
+function allowsSets(exercise: Pick<SelectExercise, "metric">) {
+  return exercise.metric === "reps";
+}
+
+// Adds each entry's sets, in the order they were done. Entries logged as a
+// single number get an empty list.
+async function withSets<T extends { id: number }>(entries: T[]) {
+  if (entries.length === 0) return [];
+  const rows = await db
+    .select({ entryId: entrySets.entryId, reps: entrySets.reps, restSeconds: entrySets.restSeconds })
+    .from(entrySets)
+    .where(inArray(entrySets.entryId, entries.map((entry) => entry.id)))
+    .orderBy(entrySets.entryId, entrySets.position);
+
+  const setsByEntry = new Map<number, SetInput[]>();
+  for (const { entryId, ...set } of rows) {
+    if (!setsByEntry.has(entryId)) setsByEntry.set(entryId, []);
+    setsByEntry.get(entryId)!.push(set);
+  }
+  return entries.map((entry) => ({ ...entry, sets: setsByEntry.get(entry.id) ?? [] }));
+}
+
+const MAX_NOTES_LENGTH = 1000;
+const MAX_TAGS = 10;
+const MAX_TAG_LENGTH = 32;
+
+type EntryDetails = Partial<Pick<InsertActivityEntry, "notes" | "tags" | "rpe">>;
+
+// Validates the optional notes, tags and RPE of a POST or PATCH body. Absent
+// fields are left out; null or "" clears notes and RPE. Tags may be a list
+// or a comma-separated string; commas always split, and tags are trimmed,
+// lowercased and de-duplicated.
+function parseEntryDetails(body: Record<string, unknown>): { details?: EntryDetails; error?: string } {
+  const { notes, tags, rpe } = body;
+  const details: EntryDetails = {};
+
+  if (notes !== undefined) {
+    if (notes !== null && typeof notes !== "string") {
+      return { error: "Notes must be text" };
+    }
+    if (notes && notes.length > MAX_NOTES_LENGTH) {
+      return { error: `Notes can be at most ${MAX_NOTES_LENGTH} characters` };
+    }
+    details.notes = notes?.trim() || null;
+  }
+
+  if (tags !== undefined) {
+    const list = typeof tags === "string" ? [tags] : tags;
+    if (!Array.isArray(list) || list.some((tag) => typeof tag !== "string")) {
+      return { error: "Tags must be a list of strings" };
+    }
+    const normalized = Array.from(
+      new Set(list.flatMap((tag: string) => tag.split(",")).map((tag) => tag.trim().toLowerCase()).filter(Boolean)),
+    );
+    if (normalized.length > MAX_TAGS || normalized.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return { error: `Use at most ${MAX_TAGS} tags of up to ${MAX_TAG_LENGTH} characters` };
+    }
+    details.tags = normalized;
+  }
+
+  if (rpe !== undefined) {
+    const parsed = Number(rpe);
+    if (rpe !== null && rpe !== "" && (!Number.isInteger(parsed) || parsed < 1 || parsed > 10)) {
+      return { error: "RPE must be a whole number from 1 to 10" };
+    }
+    details.rpe = rpe === null || rpe === "" ? null : parsed;
+  }
+
+  return { details };
+}
+
+// Condition for a `?tag=` query parameter; undefined when there is none
+export function tagFilter(tag: unknown) {
+  return typeof tag === "string" && tag.trim()
+    ? arrayContains(activityEntries.tags, [tag.trim().toLowerCase()])
+    : undefined;
+}
+
+type EntryFields = Pick<InsertActivityEntry, "date" | "localDate" | "timezone"> & EntryDetails;
+
+async function insertEntry(
+  userId: number,
+  exerciseId: number,
+  value: number,
+  fields: EntryFields,
+  sets: SetInput[] = [],
+) {
+  return db.transaction(async (tx) => {
+    const [entry] = await tx
+      .insert(activityEntries)
+      .values({ userId, exerciseId, value, ...fields })
+      .returning(listColumns);
+    if (sets.length > 0) {
+      await tx.insert(entrySets).values(sets.map((set, position) => ({ ...set, entryId: entry.id, position })));
+    }
+    return { ...entry, sets };
+  });
+}
+
+type EntryChanges = Partial<Pick<InsertActivityEntry, "value" | "date" | "localDate" | "timezone">> & EntryDetails;
+
+// Validates the editable fields of a PATCH body, reading the value from
+// `field`. All are optional, but at least one has to be present. When sets
+// are given the value is their total.
+function parseEntryChanges(body: Record<string, unknown>, timezone: string, field = "value") {
+  const changes: EntryChanges = {};
+  let value = body[field];
+  const { date } = body;
+
+  const parsedSets = parseSets(body.sets);
+  if (parsedSets.error) {
+    return { error: parsedSets.error };
+  }
+  if (parsedSets.sets?.length) {
+    value = totalReps(parsedSets.sets);
+  }
+
+  if (value !== undefined) {
+    const parsed = Number(value);
+    if (value === null || value === "" || isNaN(parsed) || parsed <= 0) {
+      return { error: `Invalid ${field} value` };
+    }
+    changes.value = parsed;
+  }
+
+  if (date !== undefined) {
+    const when = date ? resolveEntryDate(date, timezone) : null;
+    if (!when) {
+      return { error: "Invalid date" };
+    }
+    Object.assign(changes, when, { timezone });
+  }
+
+  const { details, error } = parseEntryDetails(body);
+  if (!details) {
+    return { error };
+  }
+  Object.assign(changes, details);
+
+  if (Object.keys(changes).length === 0 && parsedSets.sets === undefined) {
+    return { error: "Nothing to update" };
+  }
+  // A bare calendar day only moves the entry when it names a different day
+  const dayOnly = typeof date === "string" && isoDate.test(date);
+  return { changes, sets: parsedSets.sets, dayOnly };
+}
+
+// Re-saving an entry with the day it already counts toward keeps its
+// original time and timezone, rather than repinning it to noon or now
+async function keepTimeOnSameDay(userId: number, id: number, changes: EntryChanges) {
+  if (changes.localDate === undefined) return;
+  const [current] = await db
+    .select({ localDate: activityEntries.localDate })
+    .from(activityEntries)
+    .where(and(eq(activityEntries.id, id), eq(activityEntries.userId, userId)));
+  if (current?.localDate === changes.localDate) {
+    delete changes.date;
+    delete changes.localDate;
+    delete changes.timezone;
+  }
+}
+
+// Returns undefined when the entry does not exist or belongs to someone else.
+async function updateEntry(
+  userId: number,
+  id: number,
+  changes: EntryChanges,
+  sets?: SetInput[],
+  exerciseId?: number,
+) {
+  const conditions = [eq(activityEntries.id, id), eq(activityEntries.userId, userId), notDeleted];
+  if (exerciseId !== undefined) {
+    conditions.push(eq(activityEntries.exerciseId, exerciseId));
+  }
+
+  // Typing over the total of an entry that had sets drops the breakdown
+  if (sets === undefined && changes.value !== undefined) {
+    sets = [];
+  }
+
+  const entry = await db.transaction(async (tx) => {
+    const [updated] =
+      Object.keys(changes).length > 0
+        ? await tx
+            .update(activityEntries)
+            .set(
+              // A new distance scales the pace of a walk that has one
+              changes.value !== undefined
+                ? { ...changes, paceSecondsPerKm: sql`${activityEntries.paceSecondsPerKm} * ${activityEntries.value} / ${changes.value}` }
+                : changes,
+            )
+            .where(and(...conditions))
+            .returning(listColumns)
+        : await tx
+            .select(listColumns)
+            .from(activityEntries)
+            .where(and(...conditions));
+    if (!updated) return undefined;
+
+    if (sets !== undefined) {
+      await tx.delete(entrySets).where(eq(entrySets.entryId, updated.id));
+      if (sets.length > 0) {
+        await tx.insert(entrySets).values(sets.map((set, position) => ({ ...set, entryId: updated.id, position })));
+      }
+    }
+    return updated;
+  });
+  return entry && (await withSets([entry]))[0];
+}
+
+export function setupActivities(app: Express) {
+  app.get("/api/exercises", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const catalog = await db.select().from(exercises).orderBy(exercises.id);
+      res.json(catalog);
+    } catch (error) {
+      console.error("Error fetching exercises:", error);
+      res.status(500).json({ message: "Failed to fetch exercises" });
+    }
+  });
+
+  app.post("/api/exercises", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { name, metric, unit } = req.body;
+
+      if (!name || typeof name !== "string" || !toSlug(name)) {
+        return res.status(400).json({ message: "Invalid exercise name" });
+      }
+      if (!metricKinds.includes(metric)) {
+        return res.status(400).json({ message: `Metric must be one of ${metricKinds.join(", ")}` });
+      }
+      // Distances are always stored in meters, so no unit is needed for them
+      if (metric !== "distance" && (!unit || typeof unit !== "string")) {
+        return res.status(400).json({ message: "Invalid unit" });
+      }
+
+      const slug = toSlug(name);
+      if (await findExercise(slug)) {
+        return res.status(400).json({ message: "Exercise already exists" });
+      }
+
+      const [exercise] = await db
+        .insert(exercises)
+        .values({ slug, name: name.trim(), metric: metric as MetricKind, unit: metric === "distance" ? "meters" : unit.trim() })
+        .returning();
+      res.status(201).json(exercise);
+    } catch (error) {
+      console.error("Error adding exercise:", error);
+      res.status(500).json({ message: "Failed to add exercise" });
+    }
+  });
+
+  app.get("/api/activities", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const userId = req.user!.id;
+      const slug = typeof req.query.exercise === "string" ? req.query.exercise : undefined;
+
+      const rows = await db
+        .select({ entry: listColumns, exercise: exercises.slug })
+        .from(activityEntries)
+        .innerJoin(exercises, eq(activityEntries.exerciseId, exercises.id))
+        .where(
+          and(
+            eq(activityEntries.userId, userId),
+            notDeleted,
+            slug ? eq(exercises.slug, slug) : undefined,
+            tagFilter(req.query.tag),
+          ),
+        );
+
+      res.json(await withSets(rows.map((row) => ({ ...row.entry, exercise: row.exercise }))));
+    } catch (error) {
+      console.error("Error fetching activities:", error);
+      res.status(500).json({ message: "Failed to fetch activity entries" });
+    }
+  });
+
+  // Tags in use, most used first, for filters and suggestions
+  app.get("/api/tags", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const userId = req.user!.id;
+      const slug = typeof req.query.exercise === "string" ? req.query.exercise : undefined;
+      const exercise = slug ? await findExercise(slug) : undefined;
+      if (slug && !exercise) {
+        return res.status(404).json({ message: "Unknown exercise" });
+      }
+
+      const tagged = db
+        .select({ tag: sql<string>`unnest(${activityEntries.tags})`.as("tag") })
+        .from(activityEntries)
+        .where(
+          and(
+            eq(activityEntries.userId, userId),
+            notDeleted,
+            exercise ? eq(activityEntries.exerciseId, exercise.id) : undefined,
+          ),
+        )
+        .as("tagged");
+      const rows = await db
+        .select({ tag: tagged.tag, entries: count() })
+        .from(tagged)
+        .groupBy(tagged.tag)
+        .orderBy(desc(count()), asc(tagged.tag));
+      res.json(rows);
+    } catch (error) {
+      console.error("Error fetching tags:", error);
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.post("/api/activities", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { exercise: slug, date } = req.body;
+      const userId = req.user!.id;
+
+      const exercise = typeof slug === "string" ? await findExercise(slug) : undefined;
+      if (!exercise) {
+        return res.status(400).json({ message: "Unknown exercise" });
+      }
+
+      const { sets = [], error } = parseSets(req.body.sets);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+      if (sets.length > 0 && !allowsSets(exercise)) {
+        return res.status(400).json({ message: "Sets are only supported for rep-based exercises" });
+      }
+      const value = sets.length > 0 ? totalReps(sets) : req.body.value;
+      if (!value || isNaN(value)) {
+        return res.status(400).json({ message: "Invalid value" });
+      }
+
+      const { details, error: detailsError } = parseEntryDetails(req.body);
+      if (!details) {
+        return res.status(400).json({ message: detailsError });
+      }
+
+      const timezone = req.user!.timezone;
+      const when = resolveEntryDate(date, timezone);
+      if (!when) {
+        return res.status(400).json({ message: "Invalid date" });
+      }
+
+      const entry = await insertEntry(userId, exercise.id, Number(value), { ...when, timezone, ...details }, sets);
+      const achievements = await evaluateAchievements(req.user!, exercise, entry.id);
+      const records = await detectNewRecords(req.user!, exercise, entry.id);
+      return res.status(200).json({ ...entry, exercise: exercise.slug, achievements, records });
+    } catch (error) {
+      console.error("Error adding activity:", error);
+      res.status(500).json({ message: "Failed to add activity entry" });
+    }
+  });
+
+  app.patch("/api/activities/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const { changes, sets, dayOnly, error } = parseEntryChanges(req.body, req.user!.timezone);
+      if (!changes) {
+        return res.status(400).json({ message: error });
+      }
+      if (dayOnly) await keepTimeOnSameDay(userId, parseInt(id), changes);
+
+      if (sets?.length) {
+        const [owned] = await db
+          .select({ metric: exercises.metric })
+          .from(activityEntries)
+          .innerJoin(exercises, eq(activityEntries.exerciseId, exercises.id))
+          .where(and(eq(activityEntries.id, parseInt(id)), eq(activityEntries.userId, userId)));
+        if (owned && !allowsSets(owned)) {
+          return res.status(400).json({ message: "Sets are only supported for rep-based exercises" });
+        }
+      }
+
+      const entry = await updateEntry(userId, parseInt(id), changes, sets);
+      if (!entry) {
+        return res.status(404).json({ message: "Activity entry not found" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error updating activity:", error);
+      res.status(500).json({ message: "Failed to update activity entry" });
+    }
+  });
+
+  // Moves the entry to the trash; see server/trash.ts for restore and purge
+  app.delete("/api/activities/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      await db
+        .update(activityEntries)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(activityEntries.id, parseInt(id)), eq(activityEntries.userId, userId), notDeleted));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting activity:", error);
+      res.status(500).json({ message: "Failed to delete activity entry" });
+    }
+  });
+
+  for (const resource of legacyResources) {
+    app.get(`/api/${resource.path}`, async (req, res) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      try {
+        const userId = req.user!.id;
+        const exercise = await findExercise(resource.exercise);
+        if (!exercise) return res.json([]);
+
+        const entries = await db
+          .select(listColumns)
+          .from(activityEntries)
+          .where(
+            and(
+              eq(activityEntries.userId, userId),
+              eq(activityEntries.exerciseId, exercise.id),
+              notDeleted,
+              tagFilter(req.query.tag),
+            ),
+          );
+        res.json((await withSets(entries)).map((entry) => toLegacyEntry(entry, resource)));
+      } catch (error) {
+        console.error(`Error fetching ${resource.path}:`, error);
+        res.status(500).json({ message: `Failed to fetch ${resource.label} entries` });
+      }
+    });
+
+    app.post(`/api/${resource.path}`, async (req, res) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      try {
+        const body = legacyBody(req.body, resource);
+        const { date } = body;
+        const userId = req.user!.id;
+
+        const exercise = await findExercise(resource.exercise);
+        if (!exercise) {
+          return res.status(500).json({ message: `Exercise "${resource.exercise}" is missing from the catalog` });
+        }
+
+        // A sets breakdown, when sent, decides the total
+        const { sets = [], error } = parseSets(req.body.sets);
+        if (error) {
+          return res.status(400).json({ message: error });
+        }
+        if (sets.length > 0 && !allowsSets(exercise)) {
+          return res.status(400).json({ message: `Sets are not supported for ${resource.path}` });
+        }
+        const value = sets.length > 0 ? totalReps(sets) : body[resource.field];
+        if (!value || isNaN(Number(value))) {
+          return res.status(400).json({ message: `Invalid ${resource.field} value` });
+        }
+
+        const { details, error: detailsError } = parseEntryDetails(body);
+        if (!details) {
+          return res.status(400).json({ message: detailsError });
+        }
+
+        const timezone = req.user!.timezone;
+        const when = resolveEntryDate(date as string | undefined, timezone);
+        if (!when) {
+          return res.status(400).json({ message: "Invalid date" });
+        }
+
+        const entry = await insertEntry(
+          userId,
+          exercise.id,
+          Number(value),
+          { ...when, timezone, ...details },
+          sets,
+        );
+        // Badges unlocked and records set by this entry ride along; older
+        // clients ignore the extra fields
+        const achievements = await evaluateAchievements(req.user!, exercise, entry.id);
+        const records = await detectNewRecords(req.user!, exercise, entry.id);
+        return res.status(200).json({ ...toLegacyEntry(entry, resource), achievements, records });
+      } catch (error) {
+        console.error(`Error adding ${resource.label}:`, error);
+        res.status(500).json({ message: `Failed to add ${resource.label} entry` });
+      }
+    });
+
+    app.patch(`/api/${resource.path}/:id`, async (req, res) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      try {
+        const { id } = req.params;
+        const userId = req.user!.id;
+
+        const { changes, sets, dayOnly, error } = parseEntryChanges(
+          legacyBody(req.body, resource),
+          req.user!.timezone,
+          resource.field,
+        );
+        if (!changes) {
+          return res.status(400).json({ message: error });
+        }
+        if (dayOnly) await keepTimeOnSameDay(userId, parseInt(id), changes);
+
+        const exercise = await findExercise(resource.exercise);
+        if (sets?.length && exercise && !allowsSets(exercise)) {
+          return res.status(400).json({ message: `Sets are not supported for ${resource.path}` });
+        }
+        const entry = exercise && (await updateEntry(userId, parseInt(id), changes, sets, exercise.id));
+        if (!entry) {
+          return res.status(404).json({ message: "Entry not found" });
+        }
+        res.json(toLegacyEntry(entry, resource));
+      } catch (error) {
+        console.error(`Error updating ${resource.label}:`, error);
+        res.status(500).json({ message: `Failed to update ${resource.label} entry` });
+      }
+    });
+
+    app.delete(`/api/${resource.path}/:id`, async (req, res) => {
+      if (!req.isAuthenticated()) return res.sendStatus(401);
+      try {
+        const { id } = req.params;
+        const userId = req.user!.id;
+        const exercise = await findExercise(resource.exercise);
+        if (exercise) {
+          await db
+            .update(activityEntries)
+            .set({ deletedAt: new Date() })
+            .where(
+              and(
+                eq(activityEntries.id, parseInt(id)),
+                eq(activityEntries.userId, userId),
+                eq(activityEntries.exerciseId, exercise.id),
+                notDeleted,
+              ),
+            );
+        }
+        res.json({ success: true });
+      } catch (error) {
+        console.error(`Error deleting ${resource.label}:`, error);
+        res.status(500).json({ message: `Failed to delete ${resource.label} entry` });
+      }
+    });
+  }
+}
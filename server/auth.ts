@@ -6,9 +6,11 @@ import connectPg from "connect-pg-simple";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { users, insertUserSchema, type SelectUser } from "@db/schema";
+import { distanceUnits, type DistanceUnit } from "@db/units";
 import { db, pool } from "@db";
 import { eq } from "drizzle-orm";
 import { fromZodError } from "zod-validation-error";
+import { isValidTimeZone } from "./timezone";
 
 declare global {
   namespace Express {
@@ -36,6 +38,12 @@ async function getUserByUsername(username: string) {
   return db.select().from(users).where(eq(users.username, username)).limit(1);
 }
 
+const MAX_STREAK_FREEZES = 5;
+
+function isWholeNumberUpTo(value: unknown, max: number): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= max;
+}
+
 function sanitizeUser(user: SelectUser): Omit<SelectUser, "password"> {
   const { password, ...sanitized } = user;
   return sanitized;
@@ -103,8 +111,10 @@ export function setupAuth(app: Express) {
     const [user] = await db
       .insert(users)
       .values({
-        ...result.data,
+        username: result.data.username,
         password: await hashPassword(result.data.password),
+        // Clients send the device timezone; don't fail sign-up over an odd one
+        timezone: isValidTimeZone(result.data.timezone) ? result.data.timezone : "UTC",
       })
       .returning();
 
@@ -129,4 +139,53 @@ export function setupAuth(app: Express) {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     res.json(sanitizeUser(req.user!));
   });
+
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const { timezone, restDaysPerWeek, streakFreezesPerMonth, weekStartsOn, distanceUnit } = req.body;
+    const changes: Partial<
+      Pick<SelectUser, "timezone" | "restDaysPerWeek" | "streakFreezesPerMonth" | "weekStartsOn" | "distanceUnit">
+    > = {};
+
+    if (timezone !== undefined) {
+      if (!isValidTimeZone(timezone)) {
+        return res.status(400).send("Invalid timezone");
+      }
+      changes.timezone = timezone;
+    }
+    if (restDaysPerWeek !== undefined) {
+      if (!isWholeNumberUpTo(restDaysPerWeek, 6)) {
+        return res.status(400).send("Rest days per week must be a whole number from 0 to 6");
+      }
+      changes.restDaysPerWeek = restDaysPerWeek;
+    }
+    if (streakFreezesPerMonth !== undefined) {
+      if (!isWholeNumberUpTo(streakFreezesPerMonth, MAX_STREAK_FREEZES)) {
+        return res.status(400).send(`Streak freezes per month must be a whole number from 0 to ${MAX_STREAK_FREEZES}`);
+      }
+      changes.streakFreezesPerMonth = streakFreezesPerMonth;
+    }
+    if (weekStartsOn !== undefined) {
+      if (!isWholeNumberUpTo(weekStartsOn, 6)) {
+        return res.status(400).send("Week start must be a day number from 0 (Sunday) to 6 (Saturday)");
+      }
+      changes.weekStartsOn = weekStartsOn;
+    }
+    if (distanceUnit !== undefined) {
+      if (!distanceUnits.includes(distanceUnit)) {
+        return res.status(400).send(`Distance unit must be one of ${distanceUnits.join(", ")}`);
+      }
+      changes.distanceUnit = distanceUnit as DistanceUnit;
+    }
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).send("No preferences to update");
+    }
+
+    const [user] = await db
+      .update(users)
+      .set(changes)
+      .where(eq(users.id, req.user!.id))
+      .returning();
+    res.json(sanitizeUser(user));
+  });
 }
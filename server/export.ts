@@ -0,0 +1,137 @@
+import type { Express, Response } from "express";
+import { db } from "@db";
+import { activityEntries, exercises, type SelectUser } from "@db/schema";
+import { eq, and, gt } from "drizzle-orm";
+import { listColumns, notDeleted } from "./activities";
+import { localDateIn } from "./timezone";
+import { distanceUnitNames, fromMeters } from "./units";
+
+const formats = ["csv", "json"] as const;
+type ExportFormat = (typeof formats)[number];
+
+// Rows are read in id order a page at a time so large histories never have
+// to sit in memory at once.
+const PAGE_SIZE = 500;
+
+const csvColumns = [
+  "id",
+  "exercise",
+  "value",
+  "unit",
+  "local_date",
+  "date",
+  "timezone",
+  "moving_seconds",
+  "elevation_gain_meters",
+  "rpe",
+  "tags",
+  "notes",
+] as const;
+
+type ExportRow = Record<(typeof csvColumns)[number], string | number>;
+
+// Text starting with =, +, -, @, a tab or a carriage return can be read as
+// a formula by spreadsheets, so it gets a leading ' to stay plain text
+function csvCell(value: string | number) {
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Distances are exported in the user's unit rather than the stored meters
+async function* exportRows(user: SelectUser) {
+  let lastId = 0;
+  while (true) {
+    const page = await db
+      .select({ activity_entries: listColumns, exercises })
+      .from(activityEntries)
+      .innerJoin(exercises, eq(activityEntries.exerciseId, exercises.id))
+      .where(and(eq(activityEntries.userId, user.id), notDeleted, gt(activityEntries.id, lastId)))
+      .orderBy(activityEntries.id)
+      .limit(PAGE_SIZE);
+
+    for (const { activity_entries: entry, exercises: exercise } of page) {
+      const isDistance = exercise.metric === "distance";
+      const row: ExportRow = {
+        id: entry.id,
+        exercise: exercise.slug,
+        value: isDistance ? fromMeters(entry.value, user.distanceUnit) : entry.value,
+        unit: isDistance ? distanceUnitNames[user.distanceUnit] : exercise.unit,
+        local_date: entry.localDate,
+        date: entry.date.toISOString(),
+        timezone: entry.timezone,
+        moving_seconds: entry.movingSeconds ?? "",
+        elevation_gain_meters: entry.elevationGainMeters ?? "",
+        rpe: entry.rpe ?? "",
+        // Joined with ; so the cell stays unquoted
+        tags: entry.tags.join(";"),
+        notes: entry.notes ?? "",
+      };
+      yield row;
+    }
+
+    if (page.length < PAGE_SIZE) return;
+    lastId = page[page.length - 1].activity_entries.id;
+  }
+}
+
+// Waits for the socket to drain whenever its buffer is full, so a slow
+// client holds up the next page instead of everything queuing in memory
+function write(res: Response, chunk: string) {
+  if (res.write(chunk)) return;
+  return new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      res.off("close", onClose);
+      resolve();
+    };
+    const onClose = () => {
+      res.off("drain", onDrain);
+      reject(new Error("Client closed the connection during export"));
+    };
+    res.once("drain", onDrain);
+    res.once("close", onClose);
+  });
+}
+
+export function setupExport(app: Express) {
+  app.get("/api/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    const format = (req.query.format ?? "csv") as ExportFormat;
+
+    if (!formats.includes(format)) {
+      return res.status(400).json({ message: `Format must be one of ${formats.join(", ")}` });
+    }
+
+    const user = req.user!;
+    const filename = `fitness-export-${localDateIn(req.user!.timezone)}.${format}`;
+
+    try {
+      res.setHeader("Content-Type", format === "csv" ? "text/csv; charset=utf-8" : "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+
+      if (format === "csv") {
+        await write(res, csvColumns.join(",") + "\n");
+        for await (const row of exportRows(user)) {
+          await write(res, csvColumns.map((column) => csvCell(row[column])).join(",") + "\n");
+        }
+      } else {
+        let first = true;
+        await write(res, "[");
+        for await (const row of exportRows(user)) {
+          await write(res, (first ? "\n" : ",\n") + JSON.stringify(row));
+          first = false;
+        }
+        await write(res, "\n]\n");
+      }
+      res.end();
+    } catch (error) {
+      console.error("Error exporting entries:", error);
+      // Once rows are streaming the status is already sent; just cut it short
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.removeHeader("Content-Disposition");
+        res.status(500).json({ message: "Failed to export entries" });
+      }
+    }
+  });
+}
@@ -0,0 +1,31 @@
+import { spawn } from "child_process";
+
+// Runs ffmpeg and resolves with its log output, which is where it reports
+// the input's details. Aborting the signal kills the process.
+export function runFfmpeg(args: string[], signal?: AbortSignal) {
+  return new Promise<string>((resolve, reject) => {
+    const ffmpeg = spawn("ffmpeg", args, { signal, killSignal: "SIGKILL" });
+
+    let errorOutput = "";
+    ffmpeg.stderr.on("data", (data) => {
+      errorOutput += data.toString();
+    });
+
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) => {
+      if (code === 0) {
+        resolve(errorOutput);
+      } else {
+        console.error("FFmpeg error output:", errorOutput);
+        reject(new Error(`ffmpeg failed: ${errorOutput}`));
+      }
+    });
+  });
+}
+
+// ffmpeg prints the input's length as "Duration: 00:00:12.34"
+export function parseDuration(output: string) {
+  const match = output.match(/Duration: (\d+):(\d{2}):(\d{2}(?:\.\d+)?)/);
+  if (!match) return null;
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
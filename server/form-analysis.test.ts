@@ -0,0 +1,37 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { mockProvider } from "./form-analysis";
+import { formCheckPrompt, parseScorecard } from "./form-scoring";
+
+describe("mockProvider", () => {
+  let dir: string;
+  let videoPath: string;
+
+  beforeAll(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "form-analysis-"));
+    videoPath = path.join(dir, "video.mp4");
+    await fs.promises.writeFile(videoPath, "not really a video");
+  });
+
+  afterAll(async () => {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  const analyze = () =>
+    mockProvider({ model: "mock-form-v1", timeoutMs: 1000 }).analyze(
+      { path: videoPath, mimeType: "video/mp4", durationSeconds: 30 },
+      formCheckPrompt,
+    );
+
+  it("replies with a valid scorecard", async () => {
+    const { scorecard, error } = parseScorecard(await analyze());
+    expect(error).toBeUndefined();
+    expect(scorecard?.issues.map((issue) => issue.timestampSeconds)).toEqual([9, 21]);
+  });
+
+  it("gives the same clip the same scores", async () => {
+    expect(await analyze()).toBe(await analyze());
+  });
+});
@@ -0,0 +1,230 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createHash } from "crypto";
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import {
+  formAnalysisProviders,
+  formScoreCategories,
+  type FormAnalysisProviderName,
+  type FormScorecard,
+} from "@db/schema";
+import { runFfmpeg } from "./ffmpeg";
+import { formatTimestamp } from "./form-scoring";
+
+export type VideoInput = {
+  path: string;
+  mimeType: string;
+  durationSeconds: number | null;
+};
+
+// A backend that watches a form-check video and replies to the prompt,
+// giving up when the signal aborts
+export interface FormAnalysisProvider {
+  name: FormAnalysisProviderName;
+  model: string;
+  // How long a single request to the model may take
+  timeoutMs: number;
+  analyze(video: VideoInput, prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+const defaultModels: Record<FormAnalysisProviderName, string> = {
+  gemini: "gemini-2.0-flash-exp",
+  openai: "llava",
+  mock: "mock-form-v1",
+};
+
+const DEFAULT_TIMEOUT_MS = 2 * 60 * 1000;
+
+type ProviderOptions = { model: string; timeoutMs: number };
+
+// Gives up on the request after timeoutMs, or earlier if the caller aborts
+function requestSignal(timeoutMs: number, signal?: AbortSignal) {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+// OpenAI-compatible servers take images rather than video, so the video is
+// sampled into frames
+const FRAME_INTERVAL_SECONDS = 2;
+const MAX_FRAMES = 30;
+
+function geminiProvider({ model, timeoutMs }: ProviderOptions): FormAnalysisProvider {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    const isDeployment = process.env.REPLIT_DEPLOYMENT === "1";
+    throw new Error(
+      isDeployment ? "Gemini API key not configured in deployment environment" : "Gemini API key not configured",
+    );
+  }
+  const genAI = new GoogleGenerativeAI(apiKey);
+
+  return {
+    name: "gemini",
+    model,
+    timeoutMs,
+    async analyze(video, prompt, signal) {
+      const base64Video = (await fs.promises.readFile(video.path)).toString("base64");
+      const result = await genAI.getGenerativeModel({
+        model,
+        generationConfig: { responseMimeType: "application/json" },
+      }).generateContent({
+        contents: [{
+          role: "user",
+          parts: [
+            { text: prompt },
+            { inlineData: { mimeType: video.mimeType, data: base64Video } },
+          ],
+        }],
+      }, { signal: requestSignal(timeoutMs, signal) });
+      return result.response.text();
+    },
+  };
+}
+
+async function extractFrames(videoPath: string, signal?: AbortSignal) {
+  const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "form-frames-"));
+  try {
+    await runFfmpeg([
+      "-i", videoPath,
+      "-vf", `fps=1/${FRAME_INTERVAL_SECONDS},scale=480:-2`,
+      "-frames:v", String(MAX_FRAMES),
+      "-q:v", "5",
+      path.join(dir, "frame-%03d.jpg"),
+    ], signal);
+    const files = (await fs.promises.readdir(dir)).sort();
+    return await Promise.all(
+      files.map(async (file, index) => ({
+        seconds: index * FRAME_INTERVAL_SECONDS,
+        base64: (await fs.promises.readFile(path.join(dir, file))).toString("base64"),
+      })),
+    );
+  } finally {
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Any server speaking the OpenAI chat completions API with image input,
+// such as a local Ollama, vLLM or LM Studio
+function openAiProvider({ model, timeoutMs }: ProviderOptions): FormAnalysisProvider {
+  const baseUrl = process.env.FORM_ANALYSIS_BASE_URL;
+  if (!baseUrl) {
+    throw new Error("FORM_ANALYSIS_BASE_URL not configured for the openai provider");
+  }
+  const apiKey = process.env.FORM_ANALYSIS_API_KEY;
+
+  return {
+    name: "openai",
+    model,
+    timeoutMs,
+    async analyze(video, prompt, signal) {
+      const frames = await extractFrames(video.path, signal);
+      if (frames.length === 0) throw new Error("No frames could be read from the video");
+
+      const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+        method: "POST",
+        signal: requestSignal(timeoutMs, signal),
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{
+            role: "user",
+            content: [
+              {
+                type: "text",
+                text: `${prompt}\n\nThe video is given as frames taken every ${FRAME_INTERVAL_SECONDS} seconds, each labelled with its time.`,
+              },
+              ...frames.flatMap((frame) => [
+                { type: "text", text: `Frame at ${formatTimestamp(frame.seconds)}` },
+                { type: "image_url", image_url: { url: `data:image/jpeg;base64,${frame.base64}` } },
+              ]),
+            ],
+          }],
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`Analysis server responded ${response.status}: ${await response.text()}`);
+      }
+
+      const data = (await response.json()) as { choices?: { message?: { content?: string } }[] };
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) throw new Error("Analysis server returned an empty reply");
+      return content;
+    },
+  };
+}
+
+// Canned scorecard for development without a model. Scores come from a hash
+// of the video, so the same clip always gets the same result.
+export function mockProvider({ model, timeoutMs }: ProviderOptions): FormAnalysisProvider {
+  return {
+    name: "mock",
+    model,
+    timeoutMs,
+    async analyze(video) {
+      const digest = createHash("sha256").update(await fs.promises.readFile(video.path)).digest();
+      const score = (byte: number) => 50 + (digest[byte] % 46);
+      const duration = video.durationSeconds ?? 20;
+
+      const scorecard: FormScorecard = {
+        overallScore: score(0),
+        summary: "Mock analysis: steady reps overall, with the hips dropping and elbows drifting late in the set.",
+        categories: Object.fromEntries(
+          formScoreCategories.map((category, index) => [
+            category,
+            { score: score(index + 1), notes: `Mock notes for ${category}.` },
+          ]),
+        ) as FormScorecard["categories"],
+        issues: [
+          {
+            category: "core",
+            severity: "medium",
+            timestampSeconds: Math.round(duration * 0.3),
+            description: "Hips sag below the line of the shoulders.",
+            fix: "Brace the core and squeeze the glutes throughout the rep.",
+          },
+          {
+            category: "elbowAngle",
+            severity: "low",
+            timestampSeconds: Math.round(duration * 0.7),
+            description: "Elbows flare out past 45 degrees.",
+            fix: "Tuck the elbows so they point back rather than out.",
+          },
+        ],
+      };
+      return JSON.stringify(scorecard);
+    },
+  };
+}
+
+const factories: Record<FormAnalysisProviderName, (options: ProviderOptions) => FormAnalysisProvider> = {
+  gemini: geminiProvider,
+  openai: openAiProvider,
+  mock: mockProvider,
+};
+
+// Picked by FORM_ANALYSIS_PROVIDER (default gemini), with FORM_ANALYSIS_MODEL
+// overriding the provider's default model and FORM_ANALYSIS_TIMEOUT_MS the
+// per-request timeout. Throws when the chosen provider is missing its
+// configuration.
+export function getFormAnalysisProvider(): FormAnalysisProvider {
+  const name = process.env.FORM_ANALYSIS_PROVIDER || "gemini";
+  if (!(formAnalysisProviders as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown FORM_ANALYSIS_PROVIDER "${name}"; expected one of ${formAnalysisProviders.join(", ")}`,
+    );
+  }
+  const timeout = process.env.FORM_ANALYSIS_TIMEOUT_MS;
+  const timeoutMs = timeout ? Number(timeout) : DEFAULT_TIMEOUT_MS;
+  if (!Number.isInteger(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`FORM_ANALYSIS_TIMEOUT_MS must be a positive number of milliseconds, got "${timeout}"`);
+  }
+  const providerName = name as FormAnalysisProviderName;
+  return factories[providerName]({
+    model: process.env.FORM_ANALYSIS_MODEL || defaultModels[providerName],
+    timeoutMs,
+  });
+}
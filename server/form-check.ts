@@ -0,0 +1,413 @@
+import type { Express, RequestHandler } from "express";
+import multer from "multer";
+import fs from "fs";
+import path from "path";
+import { db } from "@db";
+import {
+  formChecks,
+  formCheckJobs,
+  exercises,
+  type AnalysisFormat,
+  type FormAnalysisProviderName,
+  type FormCheckStage,
+  type FormScorecard,
+  type SelectFormCheckJob,
+} from "@db/schema";
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { findExercise } from "./activities";
+import { getFormAnalysisProvider } from "./form-analysis";
+import { formCheckPrompt, parseScorecard, scorecardMarkdown } from "./form-scoring";
+import { parseDuration, runFfmpeg } from "./ffmpeg";
+import { log } from "./vite";
+
+const UPLOAD_DIR = "uploads";
+const THUMBNAIL_DIR = path.join(UPLOAD_DIR, "thumbnails");
+// While polling, the client checks back this often
+const POLL_AFTER_MS = 2000;
+// Longest each stage may run before the job is failed, so one stuck video
+// can't hold up the queue behind it
+const COMPRESS_TIMEOUT_MS = 5 * 60 * 1000;
+// Analyzing gets the provider's request timeout plus this long to read the
+// video or pull frames from it
+const ANALYZE_PREPARE_MS = 2 * 60 * 1000;
+// Pending jobs untouched for this long at startup are given up on
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+class VideoFileError extends Error {}
+
+// Configure multer for video uploads
+const upload = multer({
+  dest: `${UPLOAD_DIR}/`,
+  fileFilter: (_req, file, cb) => {
+    const allowedTypes = ["video/mp4", "video/quicktime"];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new VideoFileError("Invalid file type. Only MP4 and MOV videos are allowed."));
+    }
+  },
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+});
+
+// Signed-in users only, checked before anything is written to disk. Rejected
+// uploads come back as a JSON 400 rather than Express's HTML error page.
+const uploadVideo: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  upload.single("video")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE" ? "Video must be 50MB or smaller" : error.message;
+      return res.status(400).json({ message });
+    }
+    if (error instanceof VideoFileError) {
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+if (!fs.existsSync(THUMBNAIL_DIR)) {
+  fs.mkdirSync(THUMBNAIL_DIR, { recursive: true, mode: 0o777 });
+}
+
+// One ffmpeg pass shrinks the video for the model and saves a representative
+// frame as the history thumbnail
+async function compressVideo(inputPath: string, outputPath: string, thumbnailPath: string, signal: AbortSignal) {
+  try {
+    const output = await runFfmpeg([
+      "-i", inputPath,
+      "-vf", "scale=480:-2",
+      "-c:v", "libx264",
+      "-crf", "28",
+      "-preset", "veryfast",
+      "-movflags", "+faststart",
+      "-pix_fmt", "yuv420p",
+      "-t", "60",
+      "-y",
+      outputPath,
+      "-vf", "thumbnail,scale=320:-2",
+      "-frames:v", "1",
+      "-q:v", "5",
+      "-y",
+      thumbnailPath,
+    ], signal);
+    return { durationSeconds: parseDuration(output) };
+  } catch (error) {
+    throw new Error(`Failed to compress video: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+const historyColumns = {
+  id: formChecks.id,
+  exercise: exercises.slug,
+  createdAt: formChecks.createdAt,
+  analysis: formChecks.analysis,
+  analysisFormat: formChecks.analysisFormat,
+  scorecard: formChecks.scorecard,
+  provider: formChecks.provider,
+  model: formChecks.model,
+  durationSeconds: formChecks.durationSeconds,
+  thumbnailPath: formChecks.thumbnailPath,
+};
+
+type HistoryRow = {
+  id: number;
+  exercise: string;
+  createdAt: Date;
+  analysis: string;
+  analysisFormat: AnalysisFormat;
+  scorecard: FormScorecard | null;
+  provider: FormAnalysisProviderName;
+  model: string;
+  durationSeconds: number | null;
+  thumbnailPath: string | null;
+};
+
+// The thumbnail is served through the API so it stays private to its owner
+function toHistoryItem({ thumbnailPath, ...check }: HistoryRow) {
+  return { ...check, thumbnailUrl: thumbnailPath ? `/api/form-checks/${check.id}/thumbnail` : null };
+}
+
+const pendingStages: FormCheckStage[] = ["queued", "compressing", "analyzing"];
+
+// Jobs run one at a time in this process, so ffmpeg never competes with
+// itself for the CPU
+const queue: number[] = [];
+let draining = false;
+
+function enqueue(jobId: number) {
+  queue.push(jobId);
+  if (!draining) void drain();
+}
+
+async function drain() {
+  draining = true;
+  while (queue.length > 0) {
+    const jobId = queue.shift()!;
+    try {
+      await runJob(jobId);
+    } catch (error) {
+      console.error("Error updating form check job:", error);
+    }
+  }
+  draining = false;
+}
+
+// Runs one stage of a job, aborting its signal and rejecting once the time
+// is up even if the stage doesn't notice the abort
+async function withDeadline<T>(stage: FormCheckStage, ms: number, run: (signal: AbortSignal) => Promise<T>) {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new Error(`${stage} timed out after ${Math.round(ms / 1000)} seconds`);
+      controller.abort(error);
+      reject(error);
+    }, ms);
+  });
+  try {
+    return await Promise.race([run(controller.signal), deadline]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function setStage(jobId: number, stage: FormCheckStage, changes: Partial<SelectFormCheckJob> = {}) {
+  await db
+    .update(formCheckJobs)
+    .set({ ...changes, stage, updatedAt: new Date() })
+    .where(eq(formCheckJobs.id, jobId));
+}
+
+async function runJob(jobId: number) {
+  const [job] = await db.select().from(formCheckJobs).where(eq(formCheckJobs.id, jobId)).limit(1);
+  if (!job?.videoPath || job.stage !== "queued") return;
+
+  const compressedPath = `${job.videoPath}_compressed.mp4`;
+  const thumbnailPath = path.join(THUMBNAIL_DIR, `${path.basename(job.videoPath)}.jpg`);
+  let saved = false;
+  try {
+    await setStage(jobId, "compressing");
+    const { durationSeconds } = await withDeadline("compressing", COMPRESS_TIMEOUT_MS, (signal) =>
+      compressVideo(job.videoPath!, compressedPath, thumbnailPath, signal),
+    );
+
+    await setStage(jobId, "analyzing");
+    const provider = getFormAnalysisProvider();
+    const reply = await withDeadline("analyzing", provider.timeoutMs + ANALYZE_PREPARE_MS, (signal) =>
+      provider.analyze({ path: compressedPath, mimeType: job.mimeType, durationSeconds }, formCheckPrompt, signal),
+    );
+    // A reply that isn't a valid scorecard is still worth keeping, but as
+    // plain text since it's likely broken JSON rather than markdown
+    const { scorecard, error: scoreError } = parseScorecard(reply);
+    if (scoreError) {
+      console.error(`Form check job ${jobId} reply could not be scored:`, scoreError);
+    }
+
+    const [check] = await db
+      .insert(formChecks)
+      .values({
+        userId: job.userId,
+        exerciseId: job.exerciseId,
+        analysis: scorecard ? scorecardMarkdown(scorecard) : reply,
+        analysisFormat: scorecard ? "markdown" : "text",
+        scorecard,
+        provider: provider.name,
+        model: provider.model,
+        durationSeconds,
+        thumbnailPath: fs.existsSync(thumbnailPath) ? thumbnailPath : null,
+      })
+      .returning({ id: formChecks.id });
+    saved = true;
+    await setStage(jobId, "done", { formCheckId: check.id, videoPath: null });
+  } catch (error) {
+    console.error("Error processing form check:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    await setStage(jobId, "failed", { error: `Failed to process form check: ${errorMessage}`, videoPath: null });
+    // Without a saved check nothing points at the thumbnail
+    if (!saved) await fs.promises.rm(thumbnailPath, { force: true });
+  } finally {
+    // The video itself is not kept, only the analysis and thumbnail
+    await fs.promises.rm(job.videoPath, { force: true });
+    await fs.promises.rm(compressedPath, { force: true });
+  }
+}
+
+// Jobs cut off by a restart start over if their upload is still on disk,
+// unless they had already stalled long before it
+async function requeueInterruptedJobs() {
+  const staleBefore = new Date(Date.now() - STALE_JOB_MS);
+  const jobs = await db
+    .select({ id: formCheckJobs.id, videoPath: formCheckJobs.videoPath, updatedAt: formCheckJobs.updatedAt })
+    .from(formCheckJobs)
+    .where(inArray(formCheckJobs.stage, pendingStages))
+    .orderBy(formCheckJobs.id);
+
+  let resumed = 0;
+  for (const job of jobs) {
+    if (job.updatedAt < staleBefore) {
+      await setStage(job.id, "failed", { error: "The form check stopped responding and was abandoned", videoPath: null });
+      if (job.videoPath) await fs.promises.rm(job.videoPath, { force: true });
+    } else if (job.videoPath && fs.existsSync(job.videoPath)) {
+      await setStage(job.id, "queued");
+      enqueue(job.id);
+      resumed++;
+    } else {
+      await setStage(job.id, "failed", { error: "The upload was lost before it could be analyzed", videoPath: null });
+    }
+  }
+  return resumed;
+}
+
+async function jobStatus(job: SelectFormCheckJob) {
+  let formCheck = null;
+  if (job.formCheckId !== null) {
+    const [row] = await db
+      .select(historyColumns)
+      .from(formChecks)
+      .innerJoin(exercises, eq(formChecks.exerciseId, exercises.id))
+      .where(eq(formChecks.id, job.formCheckId))
+      .limit(1);
+    formCheck = row ? toHistoryItem(row) : null;
+  }
+  return {
+    id: job.id,
+    stage: job.stage,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    formCheck,
+    pollAfterMs: pendingStages.includes(job.stage) ? POLL_AFTER_MS : null,
+  };
+}
+
+export function setupFormCheck(app: Express) {
+  app.get("/api/form-checks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const rows = await db
+        .select(historyColumns)
+        .from(formChecks)
+        .innerJoin(exercises, eq(formChecks.exerciseId, exercises.id))
+        .where(eq(formChecks.userId, req.user!.id))
+        .orderBy(desc(formChecks.createdAt));
+
+      res.json(rows.map(toHistoryItem));
+    } catch (error) {
+      console.error("Error fetching form checks:", error);
+      res.status(500).json({ message: "Failed to fetch form checks" });
+    }
+  });
+
+  app.get("/api/form-checks/:id/thumbnail", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const [check] = await db
+        .select({ thumbnailPath: formChecks.thumbnailPath })
+        .from(formChecks)
+        .where(and(eq(formChecks.id, parseInt(req.params.id)), eq(formChecks.userId, req.user!.id)))
+        .limit(1);
+      if (!check?.thumbnailPath || !fs.existsSync(check.thumbnailPath)) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+      res.sendFile(path.resolve(check.thumbnailPath));
+    } catch (error) {
+      console.error("Error fetching form check thumbnail:", error);
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
+    }
+  });
+
+  // Only the upload happens in the request; compressing and analyzing run
+  // as a job the client polls
+  app.post("/api/form-check", uploadVideo, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    if (!req.file) {
+      return res.status(400).json({ message: "No video file uploaded" });
+    }
+
+    const uploadPath = req.file.path;
+    try {
+      // Fail fast on a misconfigured provider rather than after the upload
+      // has sat in the queue
+      try {
+        getFormAnalysisProvider();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Form analysis not configured";
+        console.error(message);
+        await fs.promises.rm(uploadPath, { force: true });
+        return res.status(500).json({
+          message: `${message} - please check environment variables`,
+          isDeployment: process.env.REPLIT_DEPLOYMENT === "1",
+        });
+      }
+
+      const exercise = await findExercise(typeof req.body.exercise === "string" ? req.body.exercise : "pushups");
+      if (!exercise) {
+        await fs.promises.rm(uploadPath, { force: true });
+        return res.status(400).json({ message: "Unknown exercise" });
+      }
+
+      const [job] = await db
+        .insert(formCheckJobs)
+        .values({
+          userId: req.user!.id,
+          exerciseId: exercise.id,
+          videoPath: uploadPath,
+          mimeType: req.file.mimetype,
+        })
+        .returning();
+      enqueue(job.id);
+
+      res.status(202).json(await jobStatus(job));
+    } catch (error) {
+      console.error("Error queueing form check:", error);
+      await fs.promises.rm(uploadPath, { force: true });
+      res.status(500).json({ message: "Failed to queue form check" });
+    }
+  });
+
+  // Unfinished jobs, so a reopened app can pick up where it left off
+  app.get("/api/form-check/jobs", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const jobs = await db
+        .select()
+        .from(formCheckJobs)
+        .where(and(eq(formCheckJobs.userId, req.user!.id), inArray(formCheckJobs.stage, pendingStages)))
+        .orderBy(desc(formCheckJobs.createdAt));
+      res.json(await Promise.all(jobs.map(jobStatus)));
+    } catch (error) {
+      console.error("Error fetching form check jobs:", error);
+      res.status(500).json({ message: "Failed to fetch form check jobs" });
+    }
+  });
+
+  app.get("/api/form-check/jobs/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const [job] = await db
+        .select()
+        .from(formCheckJobs)
+        .where(and(eq(formCheckJobs.id, parseInt(req.params.id)), eq(formCheckJobs.userId, req.user!.id)))
+        .limit(1);
+      if (!job) {
+        return res.status(404).json({ message: "Form check job not found" });
+      }
+      res.json(await jobStatus(job));
+    } catch (error) {
+      console.error("Error fetching form check job:", error);
+      res.status(500).json({ message: "Failed to fetch form check job" });
+    }
+  });
+}
+
+// Picks up jobs left unfinished by the last run. Started by the server once
+// it is listening, not when the routes are registered.
+export function resumeFormCheckJobs() {
+  requeueInterruptedJobs()
+    .then((count) => {
+      if (count > 0) log(`resumed ${count} form check jobs`);
+    })
+    .catch((error) => console.error("Error resuming form check jobs:", error));
+}
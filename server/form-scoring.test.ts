@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { FormScorecard } from "@db/schema";
+import { formatTimestamp, parseScorecard, scorecardMarkdown } from "./form-scoring";
+
+const scorecard: FormScorecard = {
+  overallScore: 78,
+  summary: "Solid reps with some sagging at the end.",
+  categories: {
+    elbowAngle: { score: 80, notes: "Mostly tucked." },
+    bodyAlignment: { score: 70, notes: "Hips drop late." },
+    depth: { score: 85, notes: "Chest near the floor." },
+    tempo: { score: 75, notes: "Rushed at the end." },
+    core: { score: 72, notes: "Loses tension." },
+  },
+  issues: [
+    {
+      category: "core",
+      severity: "medium",
+      timestampSeconds: 14,
+      description: "Hips sag.",
+      fix: "Squeeze the glutes.",
+    },
+  ],
+};
+
+describe("parseScorecard", () => {
+  it("accepts a reply matching the schema", () => {
+    expect(parseScorecard(JSON.stringify(scorecard))).toEqual({ scorecard });
+  });
+
+  it("accepts a reply wrapped in a code fence", () => {
+    expect(parseScorecard("```json\n" + JSON.stringify(scorecard) + "\n```").scorecard).toEqual(scorecard);
+  });
+
+  it("rejects a reply that isn't JSON", () => {
+    expect(parseScorecard("**Great form!** Keep it up.")).toEqual({ scorecard: null, error: "Reply is not JSON" });
+  });
+
+  it("says which fields don't match the schema", () => {
+    const { scorecard: parsed, error } = parseScorecard(
+      JSON.stringify({ ...scorecard, overallScore: 140, issues: [{ ...scorecard.issues[0], severity: "extreme" }] }),
+    );
+    expect(parsed).toBeNull();
+    expect(error).toContain("overallScore");
+    expect(error).toContain("issues.0.severity");
+  });
+});
+
+describe("scorecardMarkdown", () => {
+  it("lists scores and timed issues", () => {
+    const markdown = scorecardMarkdown(scorecard);
+    expect(markdown).toContain("**Overall: 78/100**");
+    expect(markdown).toContain("- **Body alignment: 70** – Hips drop late.");
+    expect(markdown).toContain(`At ${formatTimestamp(14)} (medium)`);
+  });
+});
@@ -0,0 +1,131 @@
+import { z } from "zod";
+import { formScoreCategories, issueSeverities, type FormScorecard, type FormScoreCategory } from "@db/schema";
+
+const categoryNames: Record<FormScoreCategory, string> = {
+  elbowAngle: "Elbow angle",
+  bodyAlignment: "Body alignment",
+  depth: "Depth",
+  tempo: "Tempo",
+  core: "Core engagement",
+};
+
+export const formCheckPrompt = `
+  Watch the COMPLETE video before providing analysis. Focus on specific technique details:
+
+  1. Initial Setup & Transitions:
+     - Note precise starting position
+     - Document ANY form changes or transitions
+     - Timing of transitions
+
+  2. Technical Analysis for EACH Phase:
+     - Elbow positioning (angle relative to body)
+     - Body alignment (head, shoulders, hips, feet)
+     - Movement speed and control
+     - Depth of movement
+     - Core engagement
+
+  3. Improvements:
+     - Prioritize key form corrections
+     - Suggest specific adjustments for each issue
+     - Focus on technique over quantity
+
+  4. Safety:
+     - Note joint positions and stress points
+     - Identify any compensation patterns
+
+  Watch minimum 15-20 seconds. Be specific about observed form rather than assumptions.
+
+  Respond with ONLY a JSON object, without markdown or code fences, in exactly this shape:
+  {
+    "overallScore": <0-100>,
+    "summary": "<two or three sentences>",
+    "categories": {
+${formScoreCategories.map((category) => `      "${category}": { "score": <0-100>, "notes": "<what you saw>" }`).join(",\n")}
+    },
+    "issues": [
+      {
+        "category": <one of ${formScoreCategories.map((category) => `"${category}"`).join(", ")}>,
+        "severity": <one of ${issueSeverities.map((severity) => `"${severity}"`).join(", ")}>,
+        "timestampSeconds": <seconds into the video where it is visible>,
+        "description": "<the problem>",
+        "fix": "<how to correct it>"
+      }
+    ]
+  }
+  Scores: 100 is textbook form, 50 needs clear work, below 30 risks injury.
+`;
+
+const score = z.number().min(0).max(100);
+
+const categoryScore = z.object({ score, notes: z.string() });
+
+const scorecardSchema = z.object({
+  overallScore: score,
+  summary: z.string(),
+  categories: z.object({
+    elbowAngle: categoryScore,
+    bodyAlignment: categoryScore,
+    depth: categoryScore,
+    tempo: categoryScore,
+    core: categoryScore,
+  }),
+  issues: z.array(
+    z.object({
+      category: z.enum(formScoreCategories),
+      severity: z.enum(issueSeverities),
+      timestampSeconds: z.number().min(0),
+      description: z.string(),
+      fix: z.string(),
+    }),
+  ),
+}) satisfies z.ZodType<FormScorecard>;
+
+// Models sometimes wrap JSON in a code fence despite being asked not to
+function stripCodeFence(text: string) {
+  return text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+}
+
+// The model's reply as a scorecard, or the reason it isn't JSON of the
+// expected shape
+export function parseScorecard(text: string): { scorecard: FormScorecard; error?: never } | { scorecard: null; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(stripCodeFence(text));
+  } catch {
+    return { scorecard: null, error: "Reply is not JSON" };
+  }
+  const result = scorecardSchema.safeParse(json);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join(".") || "reply"}: ${issue.message}`);
+    return { scorecard: null, error: issues.join("; ") };
+  }
+  return { scorecard: result.data };
+}
+
+export const formatTimestamp = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, "0")}`;
+
+// Readable version of a scorecard, kept as the analysis text so every saved
+// check has markdown to show
+export function scorecardMarkdown(scorecard: FormScorecard) {
+  const lines = [
+    `**Overall: ${Math.round(scorecard.overallScore)}/100**`,
+    "",
+    scorecard.summary,
+    "",
+    "### Scores",
+    ...formScoreCategories.map((category) => {
+      const { score, notes } = scorecard.categories[category];
+      return `- **${categoryNames[category]}: ${Math.round(score)}** – ${notes}`;
+    }),
+  ];
+  if (scorecard.issues.length > 0) {
+    lines.push("", "### Issues");
+    for (const issue of [...scorecard.issues].sort((a, b) => a.timestampSeconds - b.timestampSeconds)) {
+      lines.push(
+        `- At ${formatTimestamp(issue.timestampSeconds)} (${issue.severity}): ${issue.description} Fix: ${issue.fix}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
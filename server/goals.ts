@@ -0,0 +1,119 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { goals, exercises, goalPeriods, type GoalPeriod } from "@db/schema";
+import { eq, and } from "drizzle-orm";
+import { findExercise } from "./activities";
+import { currentPeriodTotals } from "./stats";
+
+function parseTarget(target: unknown) {
+  const parsed = Number(target);
+  return target !== null && target !== "" && !isNaN(parsed) && parsed > 0 ? parsed : null;
+}
+
+export function setupGoals(app: Express) {
+  // Each goal comes back with how far along the current day/week/month is,
+  // using the same local-date buckets as /api/stats.
+  app.get("/api/goals", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const userId = req.user!.id;
+      const rows = await db
+        .select({ goal: goals, exercise: exercises.slug })
+        .from(goals)
+        .innerJoin(exercises, eq(goals.exerciseId, exercises.id))
+        .where(eq(goals.userId, userId))
+        .orderBy(goals.id);
+
+      const totalsByExercise = new Map<number, Awaited<ReturnType<typeof currentPeriodTotals>>>();
+      for (const { goal } of rows) {
+        if (!totalsByExercise.has(goal.exerciseId)) {
+          totalsByExercise.set(goal.exerciseId, await currentPeriodTotals(req.user!, goal.exerciseId));
+        }
+      }
+
+      res.json(
+        rows.map(({ goal, exercise }) => ({
+          ...goal,
+          exercise,
+          progress: totalsByExercise.get(goal.exerciseId)![goal.period],
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching goals:", error);
+      res.status(500).json({ message: "Failed to fetch goals" });
+    }
+  });
+
+  // Setting a goal for a period that already has one replaces its target
+  app.post("/api/goals", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { exercise: slug, period } = req.body;
+      const userId = req.user!.id;
+
+      const exercise = typeof slug === "string" ? await findExercise(slug) : undefined;
+      if (!exercise) {
+        return res.status(400).json({ message: "Unknown exercise" });
+      }
+      if (!goalPeriods.includes(period)) {
+        return res.status(400).json({ message: `Period must be one of ${goalPeriods.join(", ")}` });
+      }
+      const target = parseTarget(req.body.target);
+      if (!target) {
+        return res.status(400).json({ message: "Invalid target value" });
+      }
+
+      const [goal] = await db
+        .insert(goals)
+        .values({ userId, exerciseId: exercise.id, period: period as GoalPeriod, target })
+        .onConflictDoUpdate({
+          target: [goals.userId, goals.exerciseId, goals.period],
+          set: { target },
+        })
+        .returning();
+      res.json({ ...goal, exercise: exercise.slug });
+    } catch (error) {
+      console.error("Error saving goal:", error);
+      res.status(500).json({ message: "Failed to save goal" });
+    }
+  });
+
+  app.patch("/api/goals/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+
+      const target = parseTarget(req.body.target);
+      if (!target) {
+        return res.status(400).json({ message: "Invalid target value" });
+      }
+
+      const [goal] = await db
+        .update(goals)
+        .set({ target })
+        .where(and(eq(goals.id, parseInt(id)), eq(goals.userId, userId)))
+        .returning();
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.json(goal);
+    } catch (error) {
+      console.error("Error updating goal:", error);
+      res.status(500).json({ message: "Failed to update goal" });
+    }
+  });
+
+  app.delete("/api/goals/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const userId = req.user!.id;
+      await db.delete(goals).where(and(eq(goals.id, parseInt(id)), eq(goals.userId, userId)));
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting goal:", error);
+      res.status(500).json({ message: "Failed to delete goal" });
+    }
+  });
+}
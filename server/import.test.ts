@@ -0,0 +1,22 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@db", () => ({ db: {} }));
+
+const { duplicateKey } = await import("./import");
+
+describe("duplicateKey", () => {
+  it("matches the same exercise, day and amount", () => {
+    expect(duplicateKey(1, "2026-03-18", 25)).toBe(duplicateKey(1, "2026-03-18", 25));
+  });
+
+  it("ignores differences below a hundredth", () => {
+    expect(duplicateKey(2, "2026-03-18", 1609.344)).toBe(duplicateKey(2, "2026-03-18", 1609.3401));
+  });
+
+  it("tells apart exercises, days and amounts", () => {
+    const key = duplicateKey(1, "2026-03-18", 25);
+    expect(duplicateKey(2, "2026-03-18", 25)).not.toBe(key);
+    expect(duplicateKey(1, "2026-03-19", 25)).not.toBe(key);
+    expect(duplicateKey(1, "2026-03-18", 26)).not.toBe(key);
+  });
+});
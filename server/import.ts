@@ -0,0 +1,187 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { activityEntries, exercises, type InsertActivityEntry, type SelectUser } from "@db/schema";
+import { eq, and, gte, lte, inArray } from "drizzle-orm";
+import { resolveEntryDate } from "./timezone";
+import { notDeleted } from "./activities";
+import { evaluateAchievements } from "./achievements";
+import { detectNewRecords } from "./records";
+
+const MAX_ROWS = 5000;
+const INSERT_BATCH = 500;
+
+type ImportRow = {
+  exercise: string;
+  value: number;
+  date: string;
+};
+
+type CheckedRow = ImportRow & {
+  localDate: string | null;
+  status: "new" | "duplicate" | "invalid";
+  error?: string;
+};
+
+// Entries match when they are for the same exercise, day and amount.
+export function duplicateKey(exerciseId: number, localDate: string, value: number) {
+  return `${exerciseId}|${localDate}|${Math.round(value * 100)}`;
+}
+
+// Validates each submitted row and flags the ones that repeat an existing
+// entry or an earlier row in the same file.
+async function checkRows(userId: number, timezone: string, rows: unknown[]) {
+  const catalog = await db.select().from(exercises);
+  const exerciseIds = new Map(catalog.map((exercise) => [exercise.slug, exercise.id]));
+
+  const parsed = rows.map((raw) => {
+    const row = (raw ?? {}) as Partial<Record<keyof ImportRow, unknown>>;
+    const value = Number(row.value);
+    const base = {
+      exercise: String(row.exercise ?? ""),
+      value,
+      date: String(row.date ?? ""),
+    };
+    const exerciseId = exerciseIds.get(base.exercise);
+    const when = base.date ? resolveEntryDate(base.date, timezone) : null;
+
+    let error: string | undefined;
+    if (!exerciseId) error = "Unknown exercise";
+    else if (!row.value || isNaN(value) || value <= 0) error = "Invalid value";
+    else if (!when) error = "Invalid date";
+
+    return { base, exerciseId, when, error };
+  });
+
+  const localDates = parsed.flatMap((row) => (row.when ? [row.when.localDate] : [])).sort();
+  const existing = new Set<string>();
+  if (localDates.length) {
+    const entries = await db
+      .select({
+        exerciseId: activityEntries.exerciseId,
+        localDate: activityEntries.localDate,
+        value: activityEntries.value,
+      })
+      .from(activityEntries)
+      .where(
+        and(
+          eq(activityEntries.userId, userId),
+          notDeleted,
+          gte(activityEntries.localDate, localDates[0]),
+          lte(activityEntries.localDate, localDates[localDates.length - 1]),
+        ),
+      );
+    for (const entry of entries) {
+      existing.add(duplicateKey(entry.exerciseId, entry.localDate, entry.value));
+    }
+  }
+
+  return parsed.map(({ base, exerciseId, when, error }): { checked: CheckedRow; entry?: InsertActivityEntry } => {
+    if (error || !exerciseId || !when) {
+      return { checked: { ...base, localDate: when?.localDate ?? null, status: "invalid", error } };
+    }
+
+    const key = duplicateKey(exerciseId, when.localDate, base.value);
+    const duplicate = existing.has(key);
+    existing.add(key);
+
+    const entry: InsertActivityEntry = { userId, exerciseId, value: base.value, ...when, timezone };
+    const checked: CheckedRow = { ...base, localDate: when.localDate, status: duplicate ? "duplicate" : "new" };
+    return { checked, entry };
+  });
+}
+
+// Badges and records are checked once per exercise for the whole import,
+// credited to its last entry, rather than waiting for the next logged entry
+async function evaluateImport(user: SelectUser, inserted: { id: number; exerciseId: number }[]) {
+  const idsByExercise = new Map<number, number[]>();
+  for (const { id, exerciseId } of inserted) {
+    idsByExercise.set(exerciseId, [...(idsByExercise.get(exerciseId) ?? []), id]);
+  }
+  if (idsByExercise.size === 0) return { achievements: [], records: [] };
+
+  const catalog = await db
+    .select()
+    .from(exercises)
+    .where(inArray(exercises.id, Array.from(idsByExercise.keys())));
+  const achievements = [];
+  const records = [];
+  for (const exercise of catalog) {
+    const ids = idsByExercise.get(exercise.id)!;
+    achievements.push(...(await evaluateAchievements(user, exercise, Math.max(...ids))));
+    records.push(...(await detectNewRecords(user, exercise, ids)));
+  }
+  return { achievements, records };
+}
+
+function validateBody(rows: unknown) {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return "No rows to import";
+  }
+  if (rows.length > MAX_ROWS) {
+    return `Imports are limited to ${MAX_ROWS} rows at a time`;
+  }
+  return null;
+}
+
+export function setupImport(app: Express) {
+  app.post("/api/import/preview", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { rows } = req.body;
+      const error = validateBody(rows);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const results = await checkRows(req.user!.id, req.user!.timezone, rows);
+      res.json({ rows: results.map((result) => result.checked) });
+    } catch (error) {
+      console.error("Error previewing import:", error);
+      res.status(500).json({ message: "Failed to preview import" });
+    }
+  });
+
+  app.post("/api/import", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { rows, skipDuplicates = true } = req.body;
+      const error = validateBody(rows);
+      if (error) {
+        return res.status(400).json({ message: error });
+      }
+
+      const results = await checkRows(req.user!.id, req.user!.timezone, rows);
+      const invalid = results.filter((result) => result.checked.status === "invalid");
+      if (invalid.length) {
+        return res.status(400).json({ message: `${invalid.length} rows are invalid` });
+      }
+
+      const toInsert = results.flatMap((result) =>
+        result.entry && !(skipDuplicates && result.checked.status === "duplicate") ? [result.entry] : [],
+      );
+
+      // All or nothing: a failure part way through leaves no partial import
+      const inserted = await db.transaction(async (tx) => {
+        const rows = [];
+        for (let i = 0; i < toInsert.length; i += INSERT_BATCH) {
+          rows.push(
+            ...(await tx
+              .insert(activityEntries)
+              .values(toInsert.slice(i, i + INSERT_BATCH))
+              .returning({ id: activityEntries.id, exerciseId: activityEntries.exerciseId })),
+          );
+        }
+        return rows;
+      });
+
+      res.json({
+        imported: toInsert.length,
+        skipped: results.length - toInsert.length,
+        ...(await evaluateImport(req.user!, inserted)),
+      });
+    } catch (error) {
+      console.error("Error importing entries:", error);
+      res.status(500).json({ message: "Failed to import entries" });
+    }
+  });
+}
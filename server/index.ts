@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startTrashPurge } from "./trash";
+import { resumeFormCheckJobs } from "./form-check";
 
 const app = express();
-app.use(express.json());
+// Bulk imports post a few thousand rows at once
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -61,5 +64,7 @@ app.use((req, res, next) => {
   const PORT = 5000;
   server.listen(PORT, "0.0.0.0", () => {
     log(`serving on port ${PORT}`);
+    startTrashPurge();
+    resumeFormCheckJobs();
   });
 })();
@@ -0,0 +1,107 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { activityEntries, exercises, type SelectExercise, type SelectUser } from "@db/schema";
+import { eq, and, asc, desc, sql, inArray, notInArray } from "drizzle-orm";
+import { bucketStart, periodEnd, type Granularity } from "./stats";
+import { notDeleted } from "./activities";
+
+// "entry" is the best single entry; the others are the best local
+// day/week/month total, bucketed the same way as /api/stats.
+type RecordScope = "entry" | Granularity;
+
+const recordDefinitions: { key: string; exercise: string; scope: RecordScope; label: string }[] = [
+  { key: "pushups-entry", exercise: "pushups", scope: "entry", label: "Most in one entry" },
+  { key: "pushups-day", exercise: "pushups", scope: "day", label: "Best day" },
+  { key: "pushups-week", exercise: "pushups", scope: "week", label: "Best week" },
+  { key: "pushups-month", exercise: "pushups", scope: "month", label: "Best month" },
+  { key: "walks-entry", exercise: "walks", scope: "entry", label: "Longest walk" },
+  { key: "walks-week", exercise: "walks", scope: "week", label: "Best week" },
+];
+
+type PersonalRecord = {
+  value: number;
+  // Set for single-entry records
+  entryId: number | null;
+  // The local dates the record covers; equal for entry and day records
+  start: string;
+  end: string;
+};
+
+async function findRecord(
+  user: SelectUser,
+  exerciseId: number,
+  scope: RecordScope,
+  excludeEntryIds: number[] = [],
+): Promise<PersonalRecord | null> {
+  const conditions = [eq(activityEntries.userId, user.id), eq(activityEntries.exerciseId, exerciseId), notDeleted];
+  if (excludeEntryIds.length > 0) {
+    conditions.push(notInArray(activityEntries.id, excludeEntryIds));
+  }
+  const where = and(...conditions);
+
+  // Ties go to whoever got there first
+  if (scope === "entry") {
+    const [best] = await db
+      .select({ id: activityEntries.id, value: activityEntries.value, localDate: activityEntries.localDate })
+      .from(activityEntries)
+      .where(where)
+      .orderBy(desc(activityEntries.value), asc(activityEntries.date))
+      .limit(1);
+    return best ? { value: best.value, entryId: best.id, start: best.localDate, end: best.localDate } : null;
+  }
+
+  const bucket = bucketStart(scope, user.weekStartsOn);
+  const total = sql<number>`sum(${activityEntries.value})`.mapWith(Number);
+  const [best] = await db
+    .select({ start: sql<string>`to_char(${bucket}, 'YYYY-MM-DD')`, value: total })
+    .from(activityEntries)
+    .where(where)
+    .groupBy(bucket)
+    .orderBy(desc(total), asc(bucket))
+    .limit(1);
+  return best ? { value: best.value, entryId: null, start: best.start, end: periodEnd(scope, best.start) } : null;
+}
+
+// Records the given entries have just set, one entry when logging or a batch
+// when importing. A record only counts as new when it beats an earlier one,
+// so the first ever entry doesn't announce anything.
+export async function detectNewRecords(user: SelectUser, exercise: SelectExercise, entryIds: number | number[]) {
+  try {
+    const newRecords = [];
+    for (const definition of recordDefinitions.filter((record) => record.exercise === exercise.slug)) {
+      const previous = await findRecord(user, exercise.id, definition.scope, ([] as number[]).concat(entryIds));
+      if (!previous) continue;
+
+      const current = await findRecord(user, exercise.id, definition.scope);
+      if (current && current.value > previous.value) {
+        newRecords.push({ ...definition, ...current, previous: previous.value });
+      }
+    }
+    return newRecords;
+  } catch (error) {
+    console.error("Error detecting records:", error);
+    return [];
+  }
+}
+
+export function setupRecords(app: Express) {
+  app.get("/api/records", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const slugs = Array.from(new Set(recordDefinitions.map((record) => record.exercise)));
+      const catalog = await db.select().from(exercises).where(inArray(exercises.slug, slugs));
+      const exerciseIds = new Map(catalog.map((exercise) => [exercise.slug, exercise.id]));
+
+      const records = [];
+      for (const definition of recordDefinitions) {
+        const exerciseId = exerciseIds.get(definition.exercise);
+        const record = exerciseId === undefined ? null : await findRecord(req.user!, exerciseId, definition.scope);
+        records.push({ ...definition, record });
+      }
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching records:", error);
+      res.status(500).json({ message: "Failed to fetch personal records" });
+    }
+  });
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@db", () => ({ db: {} }));
+
+const { fillSeries, periodEnd, periodStart } = await import("./stats");
+
+describe("periodStart", () => {
+  it("keeps days as they are", () => {
+    expect(periodStart("day", "2026-03-18")).toBe("2026-03-18");
+  });
+
+  it("goes back to the user's week start", () => {
+    // 2026-03-18 is a Wednesday
+    expect(periodStart("week", "2026-03-18", 0)).toBe("2026-03-15");
+    expect(periodStart("week", "2026-03-18", 1)).toBe("2026-03-16");
+    expect(periodStart("week", "2026-03-15", 1)).toBe("2026-03-09");
+  });
+
+  it("goes back to the first of the month", () => {
+    expect(periodStart("month", "2026-03-18")).toBe("2026-03-01");
+  });
+});
+
+describe("periodEnd", () => {
+  it("ends weeks six days on and months on their last day", () => {
+    expect(periodEnd("week", "2026-03-15")).toBe("2026-03-21");
+    expect(periodEnd("month", "2026-02-01")).toBe("2026-02-28");
+    expect(periodEnd("month", "2024-02-01")).toBe("2024-02-29");
+  });
+});
+
+describe("fillSeries", () => {
+  it("fills days without entries with zeros", () => {
+    const series = fillSeries(
+      "day",
+      [
+        { start: "2026-03-01", value: 20 },
+        { start: "2026-03-03", value: 35 },
+      ],
+      "2026-03-01",
+      "2026-03-04",
+    );
+    expect(series).toEqual([
+      { start: "2026-03-01", key: "03/01", value: 20 },
+      { start: "2026-03-02", key: "03/02", value: 0 },
+      { start: "2026-03-03", key: "03/03", value: 35 },
+      { start: "2026-03-04", key: "03/04", value: 0 },
+    ]);
+  });
+
+  it("starts weekly series on the bucket containing the start", () => {
+    const series = fillSeries("week", [{ start: "2026-03-16", value: 5 }], "2026-03-18", "2026-03-30", 1);
+    expect(series.map((bucket) => [bucket.start, bucket.value])).toEqual([
+      ["2026-03-16", 5],
+      ["2026-03-23", 0],
+      ["2026-03-30", 0],
+    ]);
+  });
+
+  it("labels monthly buckets by month and year across a year end", () => {
+    const series = fillSeries("month", [{ start: "2026-01-01", value: 100 }], "2025-11-20", "2026-01-05");
+    expect(series).toEqual([
+      { start: "2025-11-01", key: "Nov 2025", value: 0 },
+      { start: "2025-12-01", key: "Dec 2025", value: 0 },
+      { start: "2026-01-01", key: "Jan 2026", value: 100 },
+    ]);
+  });
+
+  it("is empty when the start is after the end", () => {
+    expect(fillSeries("day", [], "2026-03-05", "2026-03-01")).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { activityEntries, type SelectUser } from "@db/schema";
+import { eq, and, gte, lte, count, sql, type SQL } from "drizzle-orm";
+import { findExercise, notDeleted, tagFilter } from "./activities";
+import { isCalendarDate, localDateIn } from "./timezone";
+
+const granularities = ["day", "week", "month"] as const;
+export type Granularity = (typeof granularities)[number];
+
+// Bucket start for each granularity, taken from the entry's local calendar
+// day. Weeks start on the user's chosen day (0 = Sunday, as in date-fns).
+export function bucketStart(granularity: Granularity, weekStartsOn = 0): SQL {
+  if (granularity === "day") return sql`${activityEntries.localDate}`;
+  if (granularity === "month") return sql`date_trunc('month', ${activityEntries.localDate})`;
+  return sql`${activityEntries.localDate} - ((extract(dow from ${activityEntries.localDate})::int + ${sql.raw(
+    String(7 - weekStartsOn),
+  )}) % 7)`;
+}
+
+const monthNames = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Chart label for a bucket: "MM/dd" for days and weeks, "MMM yyyy" for months.
+function bucketKey(granularity: Granularity, start: string) {
+  const [year, month, day] = start.split("-");
+  return granularity === "month" ? `${monthNames[parseInt(month) - 1]} ${year}` : `${month}/${day}`;
+}
+
+// Most buckets a zero-filled series may hold, so a far-off from date can't
+// build an enormous chart
+const maxBuckets: Record<Granularity, number> = {
+  day: 1096,
+  week: 520,
+  month: 600,
+};
+
+function daysBetween(start: string, end: string) {
+  const ms = Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`);
+  return Math.floor(ms / (1000 * 60 * 60 * 24)) + 1;
+}
+
+// Start of the bucket that contains a local date; the JS twin of bucketStart.
+export function periodStart(granularity: Granularity, localDate: string, weekStartsOn = 0) {
+  if (granularity === "day") return localDate;
+  if (granularity === "month") return `${localDate.slice(0, 7)}-01`;
+  const day = new Date(`${localDate}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 7 - weekStartsOn) % 7));
+  return day.toISOString().slice(0, 10);
+}
+
+// Last local date of the bucket that starts on the given date.
+export function periodEnd(granularity: Granularity, start: string) {
+  const day = new Date(`${start}T00:00:00Z`);
+  if (granularity === "week") day.setUTCDate(day.getUTCDate() + 6);
+  if (granularity === "month") day.setUTCMonth(day.getUTCMonth() + 1, 0);
+  return day.toISOString().slice(0, 10);
+}
+
+function nextDay(localDate: string) {
+  const day = new Date(`${localDate}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// Absent, or a single valid YYYY-MM-DD date; repeated query parameters
+// arrive as arrays and are rejected
+function isDateParam(value: unknown): value is string | undefined {
+  return value === undefined || (typeof value === "string" && isCalendarDate(value));
+}
+
+// Earliest date a series ending on the given date may start from.
+function earliestStart(granularity: Granularity, end: string) {
+  const day = new Date(`${end}T00:00:00Z`);
+  const span = maxBuckets[granularity] - 1;
+  if (granularity === "month") day.setUTCMonth(day.getUTCMonth() - span, 1);
+  else day.setUTCDate(day.getUTCDate() - span * (granularity === "week" ? 7 : 1));
+  return day.toISOString().slice(0, 10);
+}
+
+// One bucket for every period from start through end, with zeros where
+// nothing was logged, so charts show gaps instead of bridging them.
+export function fillSeries(
+  granularity: Granularity,
+  totals: { start: string; value: number }[],
+  start: string,
+  end: string,
+  weekStartsOn = 0,
+) {
+  const values = new Map(totals.map((bucket) => [bucket.start, bucket.value]));
+  const series: { start: string; key: string; value: number }[] = [];
+  for (let bucket = periodStart(granularity, start, weekStartsOn); bucket <= end; bucket = nextDay(periodEnd(granularity, bucket))) {
+    series.push({ start: bucket, key: bucketKey(granularity, bucket), value: values.get(bucket) ?? 0 });
+  }
+  return series;
+}
+
+// Totals for today, this week and this month in the user's timezone.
+export async function currentPeriodTotals(user: SelectUser, exerciseId: number) {
+  const today = localDateIn(user.timezone);
+  const starts: Record<Granularity, string> = {
+    day: today,
+    week: periodStart("week", today, user.weekStartsOn),
+    month: periodStart("month", today),
+  };
+  const since = starts.week < starts.month ? starts.week : starts.month;
+  const sumFrom = (start: string) =>
+    sql<number>`coalesce(sum(${activityEntries.value}) filter (where ${activityEntries.localDate} >= ${start}), 0)`.mapWith(
+      Number,
+    );
+
+  const [totals] = await db
+    .select({ day: sumFrom(starts.day), week: sumFrom(starts.week), month: sumFrom(starts.month) })
+    .from(activityEntries)
+    .where(
+      and(
+        eq(activityEntries.userId, user.id),
+        notDeleted,
+        eq(activityEntries.exerciseId, exerciseId),
+        gte(activityEntries.localDate, since),
+        lte(activityEntries.localDate, today),
+      ),
+    );
+  return totals;
+}
+
+export function setupStats(app: Express) {
+  app.get("/api/stats/:type", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const userId = req.user!.id;
+      const granularity = (req.query.granularity ?? "day") as Granularity;
+      const { from, to } = req.query;
+
+      if (!granularities.includes(granularity)) {
+        return res.status(400).json({ message: `Granularity must be one of ${granularities.join(", ")}` });
+      }
+      if (!isDateParam(from) || !isDateParam(to)) {
+        return res.status(400).json({ message: "from and to must be valid YYYY-MM-DD dates" });
+      }
+
+      const exercise = await findExercise(req.params.type);
+      if (!exercise) {
+        return res.status(404).json({ message: "Unknown exercise" });
+      }
+
+      const ownEntries = [eq(activityEntries.userId, userId), eq(activityEntries.exerciseId, exercise.id), notDeleted];
+      const [logged] = await db
+        .select({
+          first: sql<string | null>`to_char(min(${activityEntries.localDate}), 'YYYY-MM-DD')`,
+          last: sql<string | null>`to_char(max(${activityEntries.localDate}), 'YYYY-MM-DD')`,
+        })
+        .from(activityEntries)
+        .where(and(...ownEntries));
+
+      // The window runs from the range start, but no earlier than the first
+      // entry ever logged, through the range end (or today in the user's
+      // timezone, unless something is logged later). It spans at most
+      // maxBuckets periods. Totals, both averages and the zero-filled series
+      // all cover this same window, so days without activity still count.
+      const weekStartsOn = req.user!.weekStartsOn;
+      const today = localDateIn(req.user!.timezone);
+      const end = to ?? (logged.last && logged.last > today ? logged.last : today);
+      let start = from && logged.first && from > logged.first ? from : logged.first;
+      const earliest = earliestStart(granularity, end);
+      if (start && start < earliest) start = periodStart(granularity, earliest, weekStartsOn);
+
+      const conditions = [...ownEntries, lte(activityEntries.localDate, end)];
+      if (start) conditions.push(gte(activityEntries.localDate, start));
+      const where = and(...conditions, tagFilter(req.query.tag));
+
+      const [totals] = await db
+        .select({
+          total: sql<number>`coalesce(sum(${activityEntries.value}), 0)`.mapWith(Number),
+          entries: count(),
+          firstDate: sql<string | null>`to_char(min(${activityEntries.localDate}), 'YYYY-MM-DD')`,
+        })
+        .from(activityEntries)
+        .where(where);
+
+      const bucket = bucketStart(granularity, weekStartsOn);
+      const buckets = await db
+        .select({
+          start: sql<string>`to_char(${bucket}, 'YYYY-MM-DD')`,
+          value: sql<number>`sum(${activityEntries.value})`.mapWith(Number),
+        })
+        .from(activityEntries)
+        .where(where)
+        .groupBy(bucket)
+        .orderBy(bucket);
+
+      const days = start ? Math.max(daysBetween(start, end), 1) : 0;
+      const series = start ? fillSeries(granularity, buckets, start, end, weekStartsOn) : [];
+
+      res.json({
+        exercise: exercise.slug,
+        granularity,
+        total: totals.total,
+        entries: totals.entries,
+        firstDate: totals.firstDate,
+        averages: {
+          perDay: days ? totals.total / days : 0,
+          perBucket: series.length ? totals.total / series.length : 0,
+        },
+        series,
+      });
+    } catch (error) {
+      console.error("Error computing stats:", error);
+      res.status(500).json({ message: "Failed to compute stats" });
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@db", () => ({ db: {} }));
+
+const { computeStreak } = await import("./streaks");
+
+const strict = { restDaysPerWeek: 0, freezesPerMonth: 0, weekStartsOn: 0 };
+
+describe("computeStreak", () => {
+  it("counts consecutive active days up to today", () => {
+    const streak = computeStreak(new Set(["2026-03-16", "2026-03-17", "2026-03-18"]), "2026-03-18", strict);
+    expect(streak).toMatchObject({ current: 3, longest: 3, activeToday: true });
+  });
+
+  it("doesn't break the streak on a today that isn't logged yet", () => {
+    const streak = computeStreak(new Set(["2026-03-16", "2026-03-17"]), "2026-03-18", strict);
+    expect(streak).toMatchObject({ current: 2, activeToday: false });
+  });
+
+  it("breaks on a missed day with no rest days or freezes", () => {
+    const streak = computeStreak(
+      new Set(["2026-03-10", "2026-03-11", "2026-03-12", "2026-03-14"]),
+      "2026-03-14",
+      strict,
+    );
+    expect(streak).toMatchObject({ current: 1, longest: 3 });
+  });
+
+  it("covers a missed day with a rest day, then a freeze", () => {
+    // Weeks start on Sunday: 03-08 through 03-14
+    const rules = { restDaysPerWeek: 1, freezesPerMonth: 1, weekStartsOn: 0 };
+    const streak = computeStreak(
+      new Set(["2026-03-08", "2026-03-10", "2026-03-12", "2026-03-13"]),
+      "2026-03-13",
+      rules,
+    );
+    expect(streak).toMatchObject({ current: 4, restDaysLeft: 0, freezesLeft: 0 });
+  });
+
+  it("renews rest days at the user's week start", () => {
+    // Weeks start on Monday; 03-15 is a Sunday and 03-17 the next Tuesday
+    const rules = { restDaysPerWeek: 1, freezesPerMonth: 0, weekStartsOn: 1 };
+    const streak = computeStreak(
+      new Set(["2026-03-13", "2026-03-15", "2026-03-16", "2026-03-18"]),
+      "2026-03-18",
+      rules,
+    );
+    expect(streak).toMatchObject({ current: 4, restDaysLeft: 0 });
+  });
+
+  it("ignores days after today", () => {
+    const streak = computeStreak(new Set(["2026-03-18", "2026-03-19"]), "2026-03-18", strict);
+    expect(streak).toMatchObject({ current: 1, longest: 1 });
+  });
+});
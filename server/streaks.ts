@@ -0,0 +1,138 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { activityEntries, exercises, type SelectUser } from "@db/schema";
+import { eq, and, gt, lte } from "drizzle-orm";
+import { periodStart } from "./stats";
+import { notDeleted } from "./activities";
+import { localDateIn, localHourIn } from "./timezone";
+
+// From this hour on, an unlogged day that nothing else covers puts the
+// streak at risk.
+const AT_RISK_HOUR = 18;
+
+export type StreakRules = {
+  restDaysPerWeek: number;
+  freezesPerMonth: number;
+  // Rest days renew on this day of the week (0 = Sunday)
+  weekStartsOn: number;
+};
+
+function addDays(localDate: string, days: number) {
+  const day = new Date(`${localDate}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + days);
+  return day.toISOString().slice(0, 10);
+}
+
+// Walks every calendar day from the first active one up to today. A streak
+// counts days with at least one entry; a missed day is first covered by the
+// week's rest days, then by the month's freezes, and only breaks the streak
+// once both are used up. Today never breaks it since it can still be logged.
+export function computeStreak(activeDays: Set<string>, today: string, rules: StreakRules) {
+  const days = Array.from(activeDays).filter((day) => day <= today).sort();
+  let current = 0;
+  let longest = 0;
+  let restDaysUsed = 0;
+  let freezesUsed = 0;
+  let week = periodStart("week", today, rules.weekStartsOn);
+  let month = periodStart("month", today);
+
+  for (let day = days[0]; day && day <= today; day = addDays(day, 1)) {
+    if (periodStart("week", day, rules.weekStartsOn) !== week) {
+      week = periodStart("week", day, rules.weekStartsOn);
+      restDaysUsed = 0;
+    }
+    if (periodStart("month", day) !== month) {
+      month = periodStart("month", day);
+      freezesUsed = 0;
+    }
+
+    if (activeDays.has(day)) {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (day !== today && current > 0) {
+      if (restDaysUsed < rules.restDaysPerWeek) {
+        restDaysUsed++;
+      } else if (freezesUsed < rules.freezesPerMonth) {
+        freezesUsed++;
+      } else {
+        current = 0;
+      }
+    }
+  }
+
+  return {
+    current,
+    longest,
+    activeToday: activeDays.has(today),
+    restDaysLeft: rules.restDaysPerWeek - restDaysUsed,
+    freezesLeft: rules.freezesPerMonth - freezesUsed,
+  };
+}
+
+// Local dates with at least one entry, per exercise, up to and including today
+export async function loadActiveDays(userId: number, today: string, exerciseId?: number) {
+  const conditions = [
+    eq(activityEntries.userId, userId),
+    notDeleted,
+    gt(activityEntries.value, 0),
+    lte(activityEntries.localDate, today),
+  ];
+  if (exerciseId !== undefined) {
+    conditions.push(eq(activityEntries.exerciseId, exerciseId));
+  }
+
+  const rows = await db
+    .selectDistinct({ exerciseId: activityEntries.exerciseId, localDate: activityEntries.localDate })
+    .from(activityEntries)
+    .where(and(...conditions));
+
+  const activeDays = new Map<number, Set<string>>();
+  for (const { exerciseId, localDate } of rows) {
+    if (!activeDays.has(exerciseId)) activeDays.set(exerciseId, new Set());
+    activeDays.get(exerciseId)!.add(localDate);
+  }
+  return activeDays;
+}
+
+export function streakRulesFor(user: SelectUser): StreakRules {
+  return {
+    restDaysPerWeek: user.restDaysPerWeek,
+    freezesPerMonth: user.streakFreezesPerMonth,
+    weekStartsOn: user.weekStartsOn,
+  };
+}
+
+export function setupStreaks(app: Express) {
+  // One streak per exercise, over the same local-date buckets as /api/stats
+  app.get("/api/streaks", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const today = localDateIn(req.user!.timezone);
+      const rules = streakRulesFor(req.user!);
+      const activeDays = await loadActiveDays(req.user!.id, today);
+
+      const lateInDay = localHourIn(req.user!.timezone) >= AT_RISK_HOUR;
+      const allExercises = await db.select().from(exercises).orderBy(exercises.id);
+
+      res.json({
+        rules,
+        streaks: allExercises.map((exercise) => {
+          const streak = computeStreak(activeDays.get(exercise.id) ?? new Set(), today, rules);
+          return {
+            exercise: exercise.slug,
+            ...streak,
+            atRisk:
+              lateInDay &&
+              streak.current > 0 &&
+              !streak.activeToday &&
+              streak.restDaysLeft === 0 &&
+              streak.freezesLeft === 0,
+          };
+        }),
+      });
+    } catch (error) {
+      console.error("Error fetching streaks:", error);
+      res.status(500).json({ message: "Failed to fetch streaks" });
+    }
+  });
+}
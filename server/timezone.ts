@@ -0,0 +1,80 @@
+export const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+// A YYYY-MM-DD string naming a real day, so "2026-13-45" is rejected
+export function isCalendarDate(value: string) {
+  if (!isoDate.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+}
+
+export function isValidTimeZone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== "string" || !timeZone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar date (YYYY-MM-DD) of an instant as seen from the given timezone.
+export function localDateIn(timeZone: string, instant: Date = new Date()) {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(instant);
+}
+
+// Hour of the day (0-23) at an instant as seen from the given timezone.
+export function localHourIn(timeZone: string, instant: Date = new Date()) {
+  return Number(
+    new Intl.DateTimeFormat("en-US", { timeZone, hourCycle: "h23", hour: "numeric" }).format(instant),
+  );
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds.
+function offsetAt(timeZone: string, instant: Date) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)!.value);
+  const asUtc = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUtc - (instant.getTime() - instant.getUTCMilliseconds());
+}
+
+// Noon keeps the instant on the right calendar day even across DST changes.
+function noonOn(localDate: string, timeZone: string) {
+  const guess = new Date(`${localDate}T12:00:00Z`);
+  return new Date(guess.getTime() - offsetAt(timeZone, guess));
+}
+
+// Splits the date sent with an entry into the calendar day it belongs to and
+// the instant it happened. Accepts a YYYY-MM-DD day or a full timestamp;
+// returns null when the value can't be parsed.
+export function resolveEntryDate(date: unknown, timeZone: string) {
+  const now = new Date();
+  if (date === undefined || date === null || date === "") {
+    return { date: now, localDate: localDateIn(timeZone, now) };
+  }
+  if (typeof date !== "string") return null;
+
+  if (isoDate.test(date)) {
+    if (!isCalendarDate(date)) return null;
+    // Logging for today keeps the real time; other days are pinned to noon
+    const instant = date === localDateIn(timeZone, now) ? now : noonOn(date, timeZone);
+    return { date: instant, localDate: date };
+  }
+
+  const instant = new Date(date);
+  if (isNaN(instant.getTime())) return null;
+  return { date: instant, localDate: localDateIn(timeZone, instant) };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@db", () => ({ db: {} }));
+
+const { parseGpx, parseTcx, summarizeTrack } = await import("./tracks");
+
+// Three points 0.001° of latitude (about 111 m) and a minute apart
+const gpx = `<?xml version="1.0"?>
+<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1">
+  <trk><trkseg>
+    <trkpt lat="51.500000" lon="-0.120000"><ele>10</ele><time>2026-03-18T07:00:00Z</time></trkpt>
+    <trkpt lat="51.501000" lon="-0.120000"><ele>12</ele><time>2026-03-18T07:01:00Z</time></trkpt>
+    <trkpt lat="51.502000" lon="-0.120000"><ele>16</ele><time>2026-03-18T07:02:00Z</time></trkpt>
+  </trkseg></trk>
+</gpx>`;
+
+const tcx = `<?xml version="1.0"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Activities><Activity Sport="Walking"><Lap><Track>
+    <Trackpoint>
+      <Time>2026-03-18T07:00:00Z</Time>
+      <Position><LatitudeDegrees>51.5</LatitudeDegrees><LongitudeDegrees>-0.12</LongitudeDegrees></Position>
+      <AltitudeMeters>10</AltitudeMeters>
+    </Trackpoint>
+    <Trackpoint>
+      <Time>2026-03-18T07:01:00Z</Time>
+      <Position><LatitudeDegrees>51.501</LatitudeDegrees><LongitudeDegrees>-0.12</LongitudeDegrees></Position>
+      <AltitudeMeters>12</AltitudeMeters>
+    </Trackpoint>
+  </Track></Lap></Activity></Activities>
+</TrainingCenterDatabase>`;
+
+describe("parseGpx", () => {
+  it("reads coordinates, elevation and time", () => {
+    const points = parseGpx(gpx);
+    expect(points).toHaveLength(3);
+    expect(points[1]).toEqual({ lat: 51.501, lon: -0.12, ele: 12, time: new Date("2026-03-18T07:01:00Z") });
+  });
+
+  it("skips points without usable coordinates", () => {
+    expect(parseGpx('<trkpt lat="abc" lon="1"/><trkpt lat="1" lon="2"/>')).toEqual([
+      { lat: 1, lon: 2, ele: null, time: null },
+    ]);
+  });
+});
+
+describe("parseTcx", () => {
+  it("reads trackpoints", () => {
+    const points = parseTcx(tcx);
+    expect(points).toHaveLength(2);
+    expect(points[0]).toEqual({ lat: 51.5, lon: -0.12, ele: 10, time: new Date("2026-03-18T07:00:00Z") });
+  });
+});
+
+describe("summarizeTrack", () => {
+  it("measures distance, moving time and elevation gain", () => {
+    const summary = summarizeTrack(parseGpx(gpx));
+    expect(summary.distanceMeters).toBeCloseTo(222.4, 0);
+    expect(summary.movingSeconds).toBe(120);
+    // The 2 m rise is noise; the climb only counts once it clears 3 m
+    expect(summary.elevationGainMeters).toBe(6);
+    expect(summary.startedAt).toEqual(new Date("2026-03-18T07:00:00Z"));
+  });
+
+  it("leaves moving time unset without timestamps", () => {
+    const summary = summarizeTrack(parseGpx(gpx.replace(/<time>[^<]*<\/time>/g, "")));
+    expect(summary.movingSeconds).toBeNull();
+    expect(summary.startedAt).toBeNull();
+  });
+
+  it("drops points on a straight line when simplifying", () => {
+    expect(summarizeTrack(parseGpx(gpx)).track).toEqual([
+      [51.5, -0.12],
+      [51.502, -0.12],
+    ]);
+  });
+});
@@ -0,0 +1,253 @@
+import type { Express, RequestHandler } from "express";
+import multer from "multer";
+import path from "path";
+import { db } from "@db";
+import { activityEntries } from "@db/schema";
+import { findExercise, listColumns } from "./activities";
+import { evaluateAchievements } from "./achievements";
+import { detectNewRecords } from "./records";
+import { localDateIn } from "./timezone";
+import { fromMeters } from "./units";
+
+class TrackFileError extends Error {}
+
+// Track files are small enough to parse straight from memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (_req, file, cb) => {
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (extension === ".gpx" || extension === ".tcx") {
+      cb(null, true);
+    } else {
+      cb(new TrackFileError("Invalid file type. Only GPX and TCX files are allowed."));
+    }
+  },
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+// Signed-in users only, checked before the file is read. Rejected uploads
+// come back as a JSON 400 rather than Express's HTML error page.
+const uploadTrack: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) return res.sendStatus(401);
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      const message = error.code === "LIMIT_FILE_SIZE" ? "Track file must be 10MB or smaller" : error.message;
+      return res.status(400).json({ message });
+    }
+    if (error instanceof TrackFileError) {
+      return res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+type TrackPoint = {
+  lat: number;
+  lon: number;
+  ele: number | null;
+  time: Date | null;
+};
+
+// Below this speed a segment counts as standing still (watch GPS drifts a
+// little even when you're not moving).
+const MOVING_SPEED_MPS = 0.5;
+// Climbs smaller than this are treated as altimeter noise.
+const ELEVATION_THRESHOLD_M = 3;
+// How far the simplified track may stray from the recorded one.
+const SIMPLIFY_TOLERANCE_M = 10;
+
+function tagValue(xml: string, tag: string) {
+  const match = xml.match(new RegExp(`<(?:\\w+:)?${tag}[^>]*>([^<]*)</(?:\\w+:)?${tag}>`));
+  return match ? match[1].trim() : null;
+}
+
+function toPoint(lat: string | null, lon: string | null, ele: string | null, time: string | null): TrackPoint | null {
+  const point = {
+    lat: Number(lat),
+    lon: Number(lon),
+    ele: ele !== null && !isNaN(Number(ele)) ? Number(ele) : null,
+    time: time && !isNaN(Date.parse(time)) ? new Date(time) : null,
+  };
+  return lat !== null && lon !== null && !isNaN(point.lat) && !isNaN(point.lon) ? point : null;
+}
+
+export function parseGpx(xml: string) {
+  const points: TrackPoint[] = [];
+  const trackPoint = /<(?:\w+:)?trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?trkpt>)/g;
+  for (const [, attributes, body = ""] of Array.from(xml.matchAll(trackPoint))) {
+    const lat = attributes.match(/\blat="([^"]+)"/)?.[1] ?? null;
+    const lon = attributes.match(/\blon="([^"]+)"/)?.[1] ?? null;
+    const point = toPoint(lat, lon, tagValue(body, "ele"), tagValue(body, "time"));
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+export function parseTcx(xml: string) {
+  const points: TrackPoint[] = [];
+  const trackPoint = /<(?:\w+:)?Trackpoint\b[^>]*>([\s\S]*?)<\/(?:\w+:)?Trackpoint>/g;
+  for (const [, body] of Array.from(xml.matchAll(trackPoint))) {
+    const point = toPoint(
+      tagValue(body, "LatitudeDegrees"),
+      tagValue(body, "LongitudeDegrees"),
+      tagValue(body, "AltitudeMeters"),
+      tagValue(body, "Time"),
+    );
+    if (point) points.push(point);
+  }
+  return points;
+}
+
+function haversineMeters(a: TrackPoint, b: TrackPoint) {
+  const R = 6371000;
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+// Distance from p to the segment a-b, on a flat projection around a. Plenty
+// accurate at the scale of a walk.
+function offsetMeters(p: TrackPoint, a: TrackPoint, b: TrackPoint) {
+  const scale = Math.cos((a.lat * Math.PI) / 180);
+  const x = (pt: TrackPoint) => (pt.lon - a.lon) * scale * 111320;
+  const y = (pt: TrackPoint) => (pt.lat - a.lat) * 110540;
+  const [px, py, bx, by] = [x(p), y(p), x(b), y(b)];
+  const lengthSq = bx * bx + by * by;
+  const t = lengthSq ? Math.max(0, Math.min(1, (px * bx + py * by) / lengthSq)) : 0;
+  return Math.hypot(px - t * bx, py - t * by);
+}
+
+// Ramer-Douglas-Peucker, iterative so long tracks can't blow the stack.
+function simplify(points: TrackPoint[]) {
+  if (points.length < 3) return points;
+  const keep = new Array(points.length).fill(false);
+  keep[0] = keep[points.length - 1] = true;
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let maxOffset = SIMPLIFY_TOLERANCE_M;
+    for (let i = start + 1; i < end; i++) {
+      const offset = offsetMeters(points[i], points[start], points[end]);
+      if (offset > maxOffset) {
+        farthest = i;
+        maxOffset = offset;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([start, farthest], [farthest, end]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i]);
+}
+
+export function summarizeTrack(points: TrackPoint[]) {
+  let distance = 0;
+  let movingSeconds = 0;
+  let hasTimes = true;
+
+  for (let i = 1; i < points.length; i++) {
+    const segment = haversineMeters(points[i - 1], points[i]);
+    distance += segment;
+
+    const start = points[i - 1].time;
+    const end = points[i].time;
+    if (!start || !end) {
+      hasTimes = false;
+      continue;
+    }
+    const seconds = (end.getTime() - start.getTime()) / 1000;
+    if (seconds > 0 && segment / seconds >= MOVING_SPEED_MPS) {
+      movingSeconds += seconds;
+    }
+  }
+
+  // Only count a climb once it clears the noise threshold
+  let elevationGain = 0;
+  let reference: number | null = null;
+  for (const { ele } of points) {
+    if (ele === null) continue;
+    if (reference === null || ele < reference) {
+      reference = ele;
+    } else if (ele - reference >= ELEVATION_THRESHOLD_M) {
+      elevationGain += ele - reference;
+      reference = ele;
+    }
+  }
+
+  return {
+    distanceMeters: distance,
+    movingSeconds: hasTimes && movingSeconds > 0 ? Math.round(movingSeconds) : null,
+    elevationGainMeters: points.some((point) => point.ele !== null) ? Math.round(elevationGain) : null,
+    startedAt: points.find((point) => point.time)?.time ?? null,
+    track: simplify(points).map((point) => [
+      Number(point.lat.toFixed(6)),
+      Number(point.lon.toFixed(6)),
+    ] as [number, number]),
+  };
+}
+
+export function setupTracks(app: Express) {
+  app.post("/api/tracks", uploadTrack, async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No track file uploaded" });
+      }
+
+      const slug = typeof req.body.exercise === "string" ? req.body.exercise : "walks";
+      const exercise = await findExercise(slug);
+      if (!exercise || exercise.metric !== "distance") {
+        return res.status(400).json({ message: "Tracks can only be imported for distance exercises" });
+      }
+
+      const xml = req.file.buffer.toString("utf8");
+      const points = path.extname(req.file.originalname).toLowerCase() === ".tcx" ? parseTcx(xml) : parseGpx(xml);
+      if (points.length < 2) {
+        return res.status(400).json({ message: "No track points found in file" });
+      }
+
+      const summary = summarizeTrack(points);
+      if (summary.distanceMeters <= 0) {
+        return res.status(400).json({ message: "Track has no distance" });
+      }
+
+      const timezone = req.user!.timezone;
+      const date = summary.startedAt ?? new Date();
+      const [entry] = await db
+        .insert(activityEntries)
+        .values({
+          userId: req.user!.id,
+          exerciseId: exercise.id,
+          value: summary.distanceMeters,
+          date,
+          localDate: localDateIn(timezone, date),
+          timezone,
+          movingSeconds: summary.movingSeconds,
+          paceSecondsPerKm: summary.movingSeconds ? summary.movingSeconds / (summary.distanceMeters / 1000) : null,
+          elevationGainMeters: summary.elevationGainMeters,
+          track: summary.track,
+        })
+        .returning(listColumns);
+
+      res.status(201).json({
+        ...entry,
+        exercise: exercise.slug,
+        // Seconds per mile or km, following the user's distance unit
+        pace: entry.paceSecondsPerKm ? entry.paceSecondsPerKm / fromMeters(1000, req.user!.distanceUnit) : null,
+        achievements: await evaluateAchievements(req.user!, exercise, entry.id),
+        records: await detectNewRecords(req.user!, exercise, entry.id),
+      });
+    } catch (error) {
+      console.error("Error importing track:", error);
+      res.status(500).json({ message: "Failed to import track file" });
+    }
+  });
+}
@@ -0,0 +1,113 @@
+import type { Express } from "express";
+import { db } from "@db";
+import { activityEntries, exercises } from "@db/schema";
+import { eq, and, desc, isNotNull, lt } from "drizzle-orm";
+import { listColumns } from "./activities";
+import { log } from "./vite";
+
+// Deleted entries sit in the trash this long before they are purged for good
+const RETENTION_DAYS = 30;
+const PURGE_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const inTrash = isNotNull(activityEntries.deletedAt);
+
+export async function purgeExpiredTrash() {
+  const cutoff = new Date(Date.now() - RETENTION_DAYS * DAY_MS);
+  const purged = await db
+    .delete(activityEntries)
+    .where(lt(activityEntries.deletedAt, cutoff))
+    .returning({ id: activityEntries.id });
+  return purged.length;
+}
+
+export function setupTrash(app: Express) {
+  app.get("/api/trash", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const rows = await db
+        .select({ entry: listColumns, deletedAt: activityEntries.deletedAt, exercise: exercises.slug })
+        .from(activityEntries)
+        .innerJoin(exercises, eq(activityEntries.exerciseId, exercises.id))
+        .where(and(eq(activityEntries.userId, req.user!.id), inTrash))
+        .orderBy(desc(activityEntries.deletedAt));
+
+      res.json(
+        rows.map(({ entry, deletedAt, exercise }) => ({
+          ...entry,
+          exercise,
+          deletedAt,
+          purgeAt: new Date(deletedAt!.getTime() + RETENTION_DAYS * DAY_MS),
+        })),
+      );
+    } catch (error) {
+      console.error("Error fetching trash:", error);
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const [entry] = await db
+        .update(activityEntries)
+        .set({ deletedAt: null })
+        .where(and(eq(activityEntries.id, parseInt(id)), eq(activityEntries.userId, req.user!.id), inTrash))
+        .returning(listColumns);
+      if (!entry) {
+        return res.status(404).json({ message: "Entry not found in trash" });
+      }
+      res.json(entry);
+    } catch (error) {
+      console.error("Error restoring entry:", error);
+      res.status(500).json({ message: "Failed to restore entry" });
+    }
+  });
+
+  app.delete("/api/trash/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { id } = req.params;
+      const [purged] = await db
+        .delete(activityEntries)
+        .where(and(eq(activityEntries.id, parseInt(id)), eq(activityEntries.userId, req.user!.id), inTrash))
+        .returning({ id: activityEntries.id });
+      if (!purged) {
+        return res.status(404).json({ message: "Entry not found in trash" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error purging entry:", error);
+      res.status(500).json({ message: "Failed to delete entry permanently" });
+    }
+  });
+
+  // Empties the whole trash
+  app.delete("/api/trash", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const purged = await db
+        .delete(activityEntries)
+        .where(and(eq(activityEntries.userId, req.user!.id), inTrash))
+        .returning({ id: activityEntries.id });
+      res.json({ purged: purged.length });
+    } catch (error) {
+      console.error("Error emptying trash:", error);
+      res.status(500).json({ message: "Failed to empty trash" });
+    }
+  });
+}
+
+// Purges expired entries now and then every few hours. Started by the
+// server once it is listening, not when the routes are registered.
+export function startTrashPurge() {
+  const purge = () =>
+    purgeExpiredTrash()
+      .then((count) => {
+        if (count > 0) log(`purged ${count} trashed entries`);
+      })
+      .catch((error) => console.error("Error purging trash:", error));
+  purge();
+  setInterval(purge, PURGE_INTERVAL_MS).unref();
+}
@@ -0,0 +1,14 @@
+import { METERS_PER_UNIT, type DistanceUnit } from "@db/units";
+
+// Distances are converted to the user's unit at the edges: export, track
+// pace and the legacy miles field.
+export const METERS_PER_MILE = METERS_PER_UNIT.mi;
+
+export const distanceUnitNames: Record<DistanceUnit, string> = {
+  mi: "miles",
+  km: "km",
+};
+
+export function fromMeters(meters: number, unit: DistanceUnit) {
+  return meters / METERS_PER_UNIT[unit];
+}